@@ -0,0 +1,66 @@
+// Stand-in for a Rhino Compute server that replays recorded responses.
+//
+// Usage: node scripts/compute-replay-server.mjs <recordings-dir> [port]
+//
+// Every POST is answered with the next *.json file from <recordings-dir>
+// (in alphabetical order, cycling), so a captured `/grasshopper` response
+// can be fed to the dashboard without a Rhino licence. Start the app with
+// VITE_RHINO_COMPUTE_URL=http://localhost:<port> to use it.
+
+import { createServer } from "node:http";
+import { readdirSync, readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+const recordingsDir = resolve(process.argv[2] ?? "compute-recordings");
+const port = Number(process.argv[3] ?? 6500);
+
+const recordings = readdirSync(recordingsDir)
+  .filter((name) => name.endsWith(".json"))
+  .sort();
+
+if (recordings.length === 0) {
+  console.error(`No *.json recordings found in ${recordingsDir}`);
+  process.exit(1);
+}
+
+let next = 0;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const server = createServer((req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  if (req.method === "GET" && req.url === "/version") {
+    res.writeHead(200, { ...corsHeaders, "Content-Type": "application/json" });
+    res.end(JSON.stringify({ rhino: "replay", compute: "replay", git_sha: null }));
+    return;
+  }
+
+  if (req.method === "POST") {
+    // Drain the upload before answering so the client sees a clean response
+    req.resume();
+    req.on("end", () => {
+      const name = recordings[next];
+      next = (next + 1) % recordings.length;
+      console.log(`${req.method} ${req.url} -> ${name}`);
+      res.writeHead(200, { ...corsHeaders, "Content-Type": "application/json" });
+      res.end(readFileSync(join(recordingsDir, name)));
+    });
+    return;
+  }
+
+  res.writeHead(404, corsHeaders);
+  res.end();
+});
+
+server.listen(port, () => {
+  console.log(`Replaying ${recordings.length} Compute recording(s) from ${recordingsDir} on http://localhost:${port}`);
+});
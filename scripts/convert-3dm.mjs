@@ -0,0 +1,22 @@
+// Batch converts a folder of .3dm files to GLB plus a manifest.json, without a browser.
+//
+// Usage: node scripts/convert-3dm.mjs <input-dir> [output-dir] [--quality=draft|normal|fine]
+//
+// The converter is src/cli/convert3dm.ts and shares the app's parsing and export code.
+// Vite loads it, so TypeScript and the "@/" imports work without a build step.
+
+import { createServer } from "vite";
+
+const vite = await createServer({
+  mode: "production",
+  appType: "custom",
+  logLevel: "error",
+  server: { middlewareMode: true, hmr: false },
+});
+
+try {
+  const { runCli } = await vite.ssrLoadModule("/src/cli/convert3dm.ts");
+  process.exitCode = await runCli(process.argv.slice(2));
+} finally {
+  await vite.close();
+}
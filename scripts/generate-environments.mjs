@@ -0,0 +1,129 @@
+// Generates the HDR environment maps bundled with the viewer.
+//
+// Usage: node scripts/generate-environments.mjs [output-dir]
+//
+// Writes studio.hdr, outdoor.hdr and neutral.hdr (equirectangular, Y-up,
+// Radiance RGBE with run-length encoded scanlines) to public/environments,
+// so the viewer lights models without fetching anything from a CDN.
+// Replace the files with real captures of the same name to change the look.
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+const outputDir = resolve(process.argv[2] ?? "public/environments");
+const WIDTH = 512;
+const HEIGHT = 256;
+
+const DEG = Math.PI / 180;
+
+const smoothstep = (edge0, edge1, x) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// 1 inside an azimuth/elevation rectangle (degrees), fading out over `soft` degrees
+const softbox = (azimuth, elevation, [az0, az1], [el0, el1], soft) =>
+  smoothstep(az0 - soft, az0, azimuth) * (1 - smoothstep(az1, az1 + soft, azimuth)) *
+  smoothstep(el0 - soft, el0, elevation) * (1 - smoothstep(el1, el1 + soft, elevation));
+
+const mix = (a, b, t) => a.map((value, i) => value + (b[i] - value) * t);
+
+// Radiance in linear RGB for a direction given as azimuth and elevation in degrees
+const ENVIRONMENTS = {
+  // Grey cyclorama with an overhead softbox, a key and a fill strip and a rim light
+  studio(azimuth, elevation) {
+    const wall = elevation < 0 ? 0.06 : 0.1 + 0.1 * (elevation / 90);
+    const light =
+      8 * softbox(azimuth, elevation, [-40, 40], [65, 90], 6) +
+      5 * softbox(azimuth, elevation, [-70, -35], [5, 45], 4) +
+      1.5 * softbox(azimuth, elevation, [110, 150], [5, 40], 6) +
+      3 * softbox(azimuth, elevation, [55, 65], [10, 55], 3);
+    return [wall + light, wall + light, wall + light * 1.02];
+  },
+
+  // Clear sky with a sun 35° up, over warm grey ground
+  outdoor(azimuth, elevation) {
+    if (elevation < 0) {
+      return mix([0.35, 0.32, 0.27], [0.18, 0.16, 0.13], smoothstep(0, -30, elevation));
+    }
+    const sky = mix([1.3, 1.35, 1.45], [0.25, 0.45, 0.95], Math.sqrt(elevation / 90));
+    const sun = direction(40, 35);
+    const cos = direction(azimuth, elevation).reduce((sum, value, i) => sum + value * sun[i], 0);
+    const angle = Math.acos(Math.min(1, cos)) / DEG;
+    const glow = 400 * Math.exp(-((angle / 1.2) ** 2)) + 4 * Math.exp(-((angle / 12) ** 2));
+    return [sky[0] + glow, sky[1] + glow * 0.95, sky[2] + glow * 0.85];
+  },
+
+  // Soft, even light that is brighter from above, for judging shapes without highlights
+  neutral(azimuth, elevation) {
+    const value = 0.45 + 0.55 * smoothstep(-90, 90, elevation);
+    return [value, value, value];
+  },
+};
+
+function direction(azimuth, elevation) {
+  const az = azimuth * DEG;
+  const el = elevation * DEG;
+  return [Math.cos(el) * Math.cos(az), Math.sin(el), Math.cos(el) * Math.sin(az)];
+}
+
+function toRgbe([r, g, b]) {
+  const max = Math.max(r, g, b);
+  if (max < 1e-32) return [0, 0, 0, 0];
+  const exponent = Math.ceil(Math.log2(max + 1e-9));
+  const scale = 256 / 2 ** exponent;
+  return [Math.floor(r * scale), Math.floor(g * scale), Math.floor(b * scale), exponent + 128];
+}
+
+// Runs of four or more equal bytes become (128 + length, byte); the rest is copied
+// in chunks of up to 128 bytes prefixed with their length
+function encodeChannel(bytes) {
+  const out = [];
+  let i = 0;
+  while (i < bytes.length) {
+    let run = 1;
+    while (i + run < bytes.length && run < 127 && bytes[i + run] === bytes[i]) run++;
+    if (run >= 4) {
+      out.push(128 + run, bytes[i]);
+      i += run;
+      continue;
+    }
+    let end = i;
+    while (end < bytes.length && end - i < 128) {
+      if (end + 3 < bytes.length && bytes[end] === bytes[end + 1] && bytes[end] === bytes[end + 2] && bytes[end] === bytes[end + 3]) break;
+      end++;
+    }
+    out.push(end - i, ...bytes.subarray(i, end));
+    i = end;
+  }
+  return out;
+}
+
+function encodeHdr(radiance) {
+  const header = `#?RADIANCE\n# Generated by scripts/generate-environments.mjs\nFORMAT=32-bit_rle_rgbe\n\n-Y ${HEIGHT} +X ${WIDTH}\n`;
+  const chunks = [Buffer.from(header, "ascii")];
+  const channels = Array.from({ length: 4 }, () => new Uint8Array(WIDTH));
+
+  for (let row = 0; row < HEIGHT; row++) {
+    // Row 0 is the top of the image, looking straight up
+    const elevation = 90 - ((row + 0.5) / HEIGHT) * 180;
+    for (let column = 0; column < WIDTH; column++) {
+      const azimuth = ((column + 0.5) / WIDTH) * 360 - 180;
+      toRgbe(radiance(azimuth, elevation)).forEach((byte, channel) => {
+        channels[channel][column] = byte;
+      });
+    }
+    chunks.push(Buffer.from([2, 2, WIDTH >> 8, WIDTH & 0xff]));
+    for (const channel of channels) chunks.push(Buffer.from(encodeChannel(channel)));
+  }
+
+  return Buffer.concat(chunks);
+}
+
+mkdirSync(outputDir, { recursive: true });
+for (const [name, radiance] of Object.entries(ENVIRONMENTS)) {
+  const file = join(outputDir, `${name}.hdr`);
+  const data = encodeHdr(radiance);
+  writeFileSync(file, data);
+  console.log(`Wrote ${file} (${(data.length / 1024).toFixed(0)} KB)`);
+}
@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Vehicles from "./pages/Vehicles";
+import VehicleDetail from "./pages/VehicleDetail";
 import Drivers from "./pages/Drivers";
 import Fuel from "./pages/Fuel";
 import Maintenance from "./pages/Maintenance";
@@ -23,6 +24,7 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/vehicles" element={<Vehicles />} />
+            <Route path="/vehicles/:vehicleId" element={<VehicleDetail />} />
             <Route path="/drivers" element={<Drivers />} />
             <Route path="/fuel" element={<Fuel />} />
             <Route path="/maintenance" element={<Maintenance />} />
@@ -0,0 +1,161 @@
+// Batch converter from a folder of .3dm files to GLB, with a manifest.json describing every model.
+// Runs in Node through scripts/convert-3dm.mjs, with the same parsing and export code as the app.
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { basename, extname, join, resolve } from "node:path";
+import { MESH_QUALITY_PRESETS } from "@/hooks/use-viewer-settings";
+import { exportModel } from "@/lib/export";
+import { computeBounds } from "@/lib/geometry";
+import { toPoint3, type Point3 } from "@/lib/measure";
+import { metersPerUnit } from "@/lib/units";
+import {
+  loadRhino3dm,
+  parseDocument,
+  type MeshingOptions,
+  type RhinoScene,
+  type SkippedObjects
+} from "@/services/rhinoDocument";
+import { DEFAULT_MESHING_OPTIONS } from "@/services/rhinoMeshing";
+
+const USAGE = `Usage: npm run convert:3dm -- <input-dir> [output-dir] [--quality=${Object.keys(MESH_QUALITY_PRESETS).join('|')}]
+
+Converts every .3dm file in <input-dir> to GLB and writes manifest.json next to them.
+The output defaults to <input-dir>/glb.`;
+
+export interface ModelSummary {
+  // Name of the rhino3dm UnitSystem member, e.g. 'Millimeters'
+  units: string;
+  metersPerUnit: number | null;
+  // Absolute tolerance in model units
+  tolerance: number | null;
+  objectCount: number;
+  objectTypes: Record<string, number>;
+  // Objects left out of the GLB, per object type
+  skipped: SkippedObjects;
+  layers: Array<{ path: string; objectCount: number; visible: boolean }>;
+  // Model units; null for empty models
+  bounds: { min: Point3; max: Point3; size: Point3 } | null;
+}
+
+export type ManifestEntry =
+  | ({ source: string; glb: string } & ModelSummary)
+  | { source: string; glb: null; error: string };
+
+export function summarizeScene(scene: RhinoScene): ModelSummary {
+  const objectTypes: Record<string, number> = {};
+  const layerCounts = new Map<number, number>();
+  for (const object of scene.objects) {
+    objectTypes[object.objectType] = (objectTypes[object.objectType] ?? 0) + 1;
+    const layer = object.attributes.layer;
+    if (typeof layer === 'number') layerCounts.set(layer, (layerCounts.get(layer) ?? 0) + 1);
+  }
+
+  const bounds = computeBounds(scene.objects);
+  return {
+    units: scene.unitSystem,
+    metersPerUnit: metersPerUnit(scene.unitSystem) ?? null,
+    tolerance: scene.tolerance,
+    objectCount: scene.objects.length,
+    objectTypes,
+    skipped: scene.skipped,
+    layers: scene.layers.map((layer) => ({
+      path: layer.fullPath,
+      objectCount: layerCounts.get(layer.index) ?? 0,
+      visible: layer.visible
+    })),
+    bounds: bounds.isEmpty()
+      ? null
+      : {
+          min: toPoint3(bounds.min),
+          max: toPoint3(bounds.max),
+          size: toPoint3(bounds.max.clone().sub(bounds.min))
+        }
+  };
+}
+
+// GLTFExporter reads its binary output back through FileReader, which Node does not have
+class ArrayBufferReader {
+  result: ArrayBuffer | null = null;
+  onloadend: (() => void) | null = null;
+
+  readAsArrayBuffer(blob: Blob) {
+    blob.arrayBuffer().then((buffer) => {
+      this.result = buffer;
+      this.onloadend?.();
+    });
+  }
+}
+
+interface CliOptions {
+  input: string;
+  output: string;
+  meshing: MeshingOptions;
+}
+
+function parseArgs(args: string[]): CliOptions | string {
+  const paths = args.filter((arg) => !arg.startsWith('--'));
+  let meshing = DEFAULT_MESHING_OPTIONS;
+
+  for (const flag of args.filter((arg) => arg.startsWith('--'))) {
+    const [name, value] = flag.slice(2).split('=');
+    if (name === 'quality' && value in MESH_QUALITY_PRESETS) {
+      meshing = { ...meshing, angleTolerance: MESH_QUALITY_PRESETS[value as keyof typeof MESH_QUALITY_PRESETS].angleTolerance };
+    } else {
+      return `Unknown option ${flag}`;
+    }
+  }
+
+  if (paths.length === 0 || paths.length > 2) return 'Expected an input folder and an optional output folder';
+  const input = resolve(paths[0]);
+  return { input, output: resolve(paths[1] ?? join(input, 'glb')), meshing };
+}
+
+// Returns the process exit code: 0 when every file converted, 1 when some failed, 2 for bad usage
+export async function runCli(args: string[]): Promise<number> {
+  const options = parseArgs(args);
+  if (typeof options === 'string') {
+    console.error(`${options}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { input, output, meshing } = options;
+  const files = (await readdir(input, { withFileTypes: true }))
+    .filter((entry) => entry.isFile() && extname(entry.name).toLowerCase() === '.3dm')
+    .map((entry) => entry.name)
+    .sort();
+  if (files.length === 0) {
+    console.error(`No .3dm files found in ${input}`);
+    return 1;
+  }
+
+  globalThis.FileReader ??= ArrayBufferReader as unknown as typeof FileReader;
+  const rhino = await loadRhino3dm();
+  await mkdir(output, { recursive: true });
+
+  const entries: ManifestEntry[] = [];
+  for (const [index, source] of files.entries()) {
+    const startedAt = performance.now();
+    const glb = `${basename(source, extname(source))}.glb`;
+    try {
+      const scene = parseDocument(rhino, new Uint8Array(await readFile(join(input, source))), meshing);
+      const { blob } = await exportModel({ ...scene, materialOverrides: {} }, 'glb', basename(glb, '.glb'));
+      await writeFile(join(output, glb), new Uint8Array(await blob.arrayBuffer()));
+
+      entries.push({ source, glb, ...summarizeScene(scene) });
+      console.log(
+        `[${index + 1}/${files.length}] ${source} → ${glb}: ${scene.objects.length} objects, ` +
+        `${Math.round(performance.now() - startedAt)} ms`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      entries.push({ source, glb: null, error: message });
+      console.error(`[${index + 1}/${files.length}] ${source} failed: ${message}`);
+    }
+  }
+
+  const manifest = { generatedAt: new Date().toISOString(), meshing, models: entries };
+  await writeFile(join(output, 'manifest.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+
+  const failed = entries.filter((entry) => entry.glb === null).length;
+  console.log(`Converted ${files.length - failed} of ${files.length} files into ${output}`);
+  return failed > 0 ? 1 : 0;
+}
@@ -0,0 +1,72 @@
+import { useEffect, useMemo, type MutableRefObject } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { HalfFloatType, Vector3, WebGLRenderTarget, type Box3 } from "three";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { GTAOPass } from "three/examples/jsm/postprocessing/GTAOPass.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import { useSection } from "@/hooks/use-section";
+import { clippingPlanes } from "@/lib/section";
+
+// Share of the model's size that occlusion reaches across
+const RADIUS_SHARE = 0.03;
+
+interface AmbientOcclusionProps {
+  bounds: Box3;
+  // Holds a function that renders one frame with the effect, while it is mounted
+  renderRef: MutableRefObject<(() => void) | null>;
+}
+
+// Screen-space ambient occlusion (three's GTAO pass). It takes over rendering from the
+// canvas while mounted, so it is only mounted when switched on.
+export const AmbientOcclusion = ({ bounds, renderRef }: AmbientOcclusionProps) => {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const section = useSection();
+
+  const { composer, pass } = useMemo(() => {
+    // Section caps are drawn with the stencil buffer, which the composer leaves out by default
+    const composer = new EffectComposer(gl, new WebGLRenderTarget(1, 1, { type: HalfFloatType, stencilBuffer: true }));
+    const pass = new GTAOPass(scene, camera);
+    composer.addPass(new RenderPass(scene, camera));
+    composer.addPass(pass);
+    composer.addPass(new OutputPass());
+    return { composer, pass };
+  }, [gl, scene, camera]);
+
+  useEffect(() => () => {
+    pass.dispose();
+    composer.dispose();
+  }, [composer, pass]);
+
+  useEffect(() => {
+    composer.setPixelRatio(gl.getPixelRatio());
+    composer.setSize(size.width, size.height);
+  }, [composer, gl, size]);
+
+  // The pass works in model units
+  useEffect(() => {
+    const radius = (bounds.isEmpty() ? 10 : bounds.getSize(new Vector3()).length()) * RADIUS_SHARE;
+    pass.updateGtaoMaterial({ radius, thickness: radius });
+  }, [pass, bounds]);
+
+  // Depth and normals are drawn with the pass's own material, which must skip what the section cuts away
+  const planes = useMemo(() => clippingPlanes(section), [section]);
+  useEffect(() => {
+    pass.normalMaterial.clippingPlanes = planes.length > 0 ? planes : null;
+  }, [pass, planes]);
+
+  useEffect(() => {
+    renderRef.current = () => composer.render();
+    return () => {
+      renderRef.current = null;
+    };
+  }, [composer, renderRef]);
+
+  // A positive priority stops the canvas from rendering on its own
+  useFrame(() => composer.render(), 1);
+
+  return null;
+};
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Link2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useVehicleModels, VEHICLE_MODEL_ROLES, type VehicleModelRole } from "@/hooks/use-vehicle-models";
+import { vehicles } from "@/lib/vehicles";
+
+interface AttachToVehicleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Library entry and version open in the workspace
+  modelId: string;
+  versionId: string;
+}
+
+// Links the open library model to a vehicle, so it shows in the vehicle's 3D preview
+export const AttachToVehicleDialog = ({ open, onOpenChange, modelId, versionId }: AttachToVehicleDialogProps) => {
+  const { attachModel } = useVehicleModels();
+  const { toast } = useToast();
+  const [vehicleId, setVehicleId] = useState<string>('');
+  const [role, setRole] = useState<VehicleModelRole>('body');
+  const [pinVersion, setPinVersion] = useState(true);
+
+  const attach = () => {
+    const vehicle = vehicles.find((entry) => entry.id === vehicleId);
+    if (!vehicle) return;
+    attachModel({ vehicleId, modelId, versionId: pinVersion ? versionId : null, role });
+    toast({ title: `Attached to ${vehicle.plate}`, description: `Shown as ${VEHICLE_MODEL_ROLES[role].label.toLowerCase()} in its 3D preview` });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Attach to vehicle</DialogTitle>
+          <DialogDescription>
+            Technicians see attached models in the 3D preview of the vehicle.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Vehicle</Label>
+            <Select value={vehicleId} onValueChange={setVehicleId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a vehicle" />
+              </SelectTrigger>
+              <SelectContent>
+                {vehicles.map((vehicle) => (
+                  <SelectItem key={vehicle.id} value={vehicle.id}>
+                    {vehicle.plate} · {vehicle.model}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as VehicleModelRole)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VEHICLE_MODEL_ROLES) as VehicleModelRole[]).map((key) => (
+                  <SelectItem key={key} value={key}>{VEHICLE_MODEL_ROLES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="pinVersion">Pin this version</Label>
+              <p className="text-xs text-gray-500">Otherwise the vehicle always shows the latest upload</p>
+            </div>
+            <Switch id="pinVersion" checked={pinVersion} onCheckedChange={setPinVersion} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={attach} disabled={!vehicleId}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Attach
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
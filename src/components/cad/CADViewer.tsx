@@ -1,81 +1,105 @@
-import { Suspense, useRef, useState, useEffect } from "react";
-import { Canvas, useFrame } from "@react-three/fiber";
-import { OrbitControls, PerspectiveCamera, Grid, Environment } from "@react-three/drei";
-import { Mesh, BufferGeometry, Float32BufferAttribute, BufferAttribute, Group } from "three";
+import { Suspense, useState, useEffect, useLayoutEffect, useMemo, useRef, type ReactNode } from "react";
+import { Canvas, events as pointerEvents, useThree, type ThreeEvent } from "@react-three/fiber";
+import { Bvh, Grid, Html, Outlines, useCursor } from "@react-three/drei";
+import { Box3, Color, InstancedMesh, Matrix4, Vector3, type Intersection, type Material, type Mesh } from "three";
 import { Loader } from "lucide-react";
-import { rhinoService, RhinoObject } from "@/services/rhinoCompute";
+import { Progress } from "@/components/ui/progress";
+import { ViewerCamera } from "@/components/cad/ViewerCamera";
+import { ViewerLighting } from "@/components/cad/ViewerLighting";
+import { AmbientOcclusion } from "@/components/cad/AmbientOcclusion";
+import { MeasureTool } from "@/components/cad/MeasureTool";
+import { SectionClip, SectionGizmos } from "@/components/cad/SectionView";
+import { computeBounds, createBufferGeometry } from "@/lib/geometry";
+import { toPoint3, type Point3 } from "@/lib/measure";
+import { isClipped } from "@/lib/section";
+import { gridSpacing } from "@/lib/units";
+import {
+  createSurfaceMaterial,
+  disposeMaterialTextures,
+  loadMaterialTextures,
+  resolveDisplayColor,
+  resolveMaterialIndex
+} from "@/lib/materials";
+import { controlsFromView, type ViewerControls } from "@/lib/viewer-controls";
+import { useCadScene, sceneActions, isObjectLocked, isObjectVisible } from "@/hooks/use-cad-scene";
+import { useViewerSettings, meshingOptions, type ViewerSettings } from "@/hooks/use-viewer-settings";
+import { useMeasurements, measurementActions } from "@/hooks/use-measurements";
+import { sectionActions } from "@/hooks/use-section";
+import {
+  rhinoService,
+  RhinoBlock,
+  RhinoBlockPart,
+  RhinoLayer,
+  RhinoMaterial,
+  RhinoObject,
+  ParseProgress
+} from "@/services/rhinoCompute";
+import { loadModel } from "@/services/modelLoaders";
+import type { CachedScene } from "@/services/modelLibrary";
+
+// Renders the current view and returns it as a small JPEG data URL
+export type ViewerSnapshot = () => string;
+
+// A clicked point on the model's surface, in world space
+export interface SurfacePick {
+  point: Point3;
+  normal: Point3;
+  objectId?: string;
+}
 
 interface CADViewerProps {
   file: File;
-  controls: {
-    zoom: number;
-    rotation: { x: number; y: number; z: number };
-    position: { x: number; y: number; z: number };
-  };
-  onControlsChange: (controls: any) => void;
+  // Scene saved in the model library; shown instead of parsing the file when its meshing still applies
+  cachedScene?: CachedScene | null;
+  controls: ViewerControls;
+  onControlsChange: (controls: ViewerControls) => void;
+  onSnapshotReady?: (snapshot: ViewerSnapshot) => void;
+  // While set, clicks on the model report surface points instead of selecting objects
+  onSurfacePick?: (pick: SurfacePick) => void;
+  // Extra scene content drawn with the model, e.g. markers
+  children?: ReactNode;
 }
 
-// Rhino 3DM model component using actual file parsing
-const RhinoModel = ({ file }: { file: File }) => {
-  const [rhinoObjects, setRhinoObjects] = useState<RhinoObject[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const groupRef = useRef<Group>(null);
+const SNAPSHOT_WIDTH = 320;
+const SNAPSHOT_HEIGHT = 240;
 
-  useFrame((state, delta) => {
-    if (groupRef.current) {
-      groupRef.current.rotation.y += delta * 0.1;
-    }
-  });
+// Scales the canvas to cover the snapshot size, cropping the centre
+function snapshotCanvas(source: HTMLCanvasElement): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = SNAPSHOT_WIDTH;
+  canvas.height = SNAPSHOT_HEIGHT;
+  const scale = Math.max(SNAPSHOT_WIDTH / source.width, SNAPSHOT_HEIGHT / source.height);
+  const width = source.width * scale;
+  const height = source.height * scale;
+  canvas.getContext('2d')?.drawImage(source, (SNAPSHOT_WIDTH - width) / 2, (SNAPSHOT_HEIGHT - height) / 2, width, height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
 
-  // Parse the actual 3DM file using rhino3dm
-  useEffect(() => {
-    const parseRhinoFile = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        setRhinoObjects([]); // Clear previous objects
-        
-        console.log('=== CADViewer: Starting 3DM file parsing ===');
-        console.log('File name:', file.name);
-        console.log('File size:', file.size, 'bytes');
-        console.log('File type:', file.type);
-        console.log('File last modified:', new Date(file.lastModified));
-        
-        // Check if file is actually a 3DM file
-        if (!file.name.toLowerCase().endsWith('.3dm')) {
-          throw new Error('File is not a .3DM file');
-        }
-        
-        console.log('=== Calling rhinoService.parse3dmFile ===');
-        const objects = await rhinoService.parse3dmFile(file);
-        
-        console.log('=== Parsing completed successfully ===');
-        console.log('Number of objects parsed:', objects.length);
-        console.log('Objects details:', objects);
-        
-        if (objects.length === 0) {
-          console.warn('No objects found in the 3DM file');
-        }
-        
-        setRhinoObjects(objects);
-      } catch (err) {
-        console.error('=== CADViewer: Error parsing 3DM file ===');
-        console.error('Error type:', typeof err);
-        console.error('Error message:', err instanceof Error ? err.message : err);
-        console.error('Full error:', err);
-        setError(err instanceof Error ? err.message : 'Failed to parse 3DM file');
-      } finally {
-        console.log('=== CADViewer: Parsing finished, setting loading to false ===');
-        setLoading(false);
-      }
-    };
+// Rhino 3DM model component rendering the parsed objects
+const RhinoModel = ({ loading, error, picking }: { loading: boolean; error: string | null; picking: boolean }) => {
+  const {
+    objects: rhinoObjects,
+    blocks,
+    layers,
+    materials,
+    materialOverrides,
+    visibleLayers,
+    lockedLayers,
+    selectedIds,
+    hoveredId
+  } = useCadScene();
+  const { settings } = useViewerSettings();
+  const { tool } = useMeasurements();
+  const surfaceMaterials = useSurfaceMaterials(materials, settings);
 
-    console.log('=== CADViewer: useEffect triggered with new file ===');
-    parseRhinoFile();
-  }, [file]);
+  // Display colour and render material of every object; viewer assignments win over the file
+  const appearances = useMemo(() => new Map(rhinoObjects.map((rhinoObj) => {
+    const materialIndex = materialOverrides[rhinoObj.id] ?? resolveMaterialIndex(rhinoObj.attributes, layers);
+    const color = resolveDisplayColor(rhinoObj.attributes, layers, materials, materialIndex);
+    return [rhinoObj.id, { color, materialIndex }];
+  })), [rhinoObjects, layers, materials, materialOverrides]);
 
-  if (loading) {
+  if (loading && rhinoObjects.length === 0) {
     console.log('=== CADViewer: Rendering LOADING state ===');
     return (
       <group>
@@ -115,50 +139,512 @@ const RhinoModel = ({ file }: { file: File }) => {
   }
 
   console.log('=== CADViewer: Rendering SUCCESSFUL state with', rhinoObjects.length, 'objects ===');
+
+  // Visible block instances, grouped by block so each part can be drawn instanced
+  const placements = new Map<string, BlockPlacement[]>();
+  rhinoObjects.forEach((rhinoObj) => {
+    if (!rhinoObj.instance || !isObjectVisible(rhinoObj, layers, visibleLayers)) return;
+    const group = placements.get(rhinoObj.instance.blockId) ?? [];
+    group.push({
+      object: rhinoObj,
+      ...appearances.get(rhinoObj.id),
+      matrix: new Matrix4().fromArray(rhinoObj.instance.transform),
+      locked: isObjectLocked(rhinoObj, lockedLayers),
+      selected: selectedIds.includes(rhinoObj.id),
+      hovered: hoveredId === rhinoObj.id
+    });
+    placements.set(rhinoObj.instance.blockId, group);
+  });
   
+  // BVH raycasting keeps hover picking fast on dense meshes; it is built once streaming has finished
   return (
-    <group ref={groupRef}>
-      {rhinoObjects.map((rhinoObj, index) => {
-        const geometry = new BufferGeometry();
-        
-        // Convert vertices to flat array
-        const vertices = new Float32Array(rhinoObj.geometry.vertices.flat());
-        geometry.setAttribute('position', new Float32BufferAttribute(vertices, 3));
-        
-        // Add faces (indices)
-        const indices = new Uint16Array(rhinoObj.geometry.faces.flat());
-        geometry.setIndex(new BufferAttribute(indices, 1));
-        
-        // Add normals if available
-        if (rhinoObj.geometry.normals) {
-          const normals = new Float32Array(rhinoObj.geometry.normals.flat());
-          geometry.setAttribute('normal', new Float32BufferAttribute(normals, 3));
-        } else {
-          geometry.computeVertexNormals();
-        }
-        
-        // Add colors if available
-        let materialColor = `hsl(${(index * 137.5) % 360}, 70%, 60%)`;
-        if (rhinoObj.geometry.colors && rhinoObj.geometry.colors.length > 0) {
-          const colors = new Float32Array(rhinoObj.geometry.colors.flat());
-          geometry.setAttribute('color', new Float32BufferAttribute(colors, 4));
+    <Bvh enabled={!loading} firstHitOnly>
+      <RhinoBlocks
+        blocks={blocks}
+        placements={placements}
+        layers={layers}
+        materials={materials}
+        surfaceMaterials={surfaceMaterials}
+        pickable={tool === 'none' && !picking}
+        settings={settings}
+      />
+      {rhinoObjects.map((rhinoObj) => (
+        <RhinoElement
+          key={rhinoObj.id}
+          rhinoObject={rhinoObj}
+          color={appearances.get(rhinoObj.id).color}
+          material={surfaceMaterials?.get(appearances.get(rhinoObj.id).materialIndex)}
+          visible={isObjectVisible(rhinoObj, layers, visibleLayers)}
+          locked={isObjectLocked(rhinoObj, lockedLayers)}
+          selected={selectedIds.includes(rhinoObj.id)}
+          hovered={hoveredId === rhinoObj.id}
+          pickable={tool === 'none' && !picking}
+          settings={settings}
+        />
+      ))}
+    </Bvh>
+  );
+};
+
+// One scene node per object; buffer geometries are built once per geometry and disposed with it
+interface RhinoElementProps {
+  rhinoObject: RhinoObject;
+  // Rhino display colour
+  color: string;
+  // Render material, only set in "materials" colour mode
+  material?: Material;
+  visible: boolean;
+  locked: boolean;
+  selected: boolean;
+  hovered: boolean;
+  // Off while a measure tool or surface picking owns the pointer
+  pickable: boolean;
+  settings: ViewerSettings;
+}
+
+// Pointer travel (px) beyond which a click is treated as the end of an orbit drag
+const CLICK_TOLERANCE = 4;
+
+const SELECTED_COLOR = '#f59e0b';
+const HOVERED_COLOR = '#93c5fd';
+
+const highlightColor = ({ color, selected, hovered }: Pick<RhinoElementProps, 'color' | 'selected' | 'hovered'>) =>
+  selected ? SELECTED_COLOR : hovered ? HOVERED_COLOR : color;
+
+// X-ray draws every surface see-through regardless of the opacity slider
+const surfaceOpacity = (settings: ViewerSettings) =>
+  settings.xray ? Math.min(settings.opacity, 30) / 100 : settings.opacity / 100;
+
+// One three.js material per document material plus Rhino's default (-1), built only in "materials" mode
+const useSurfaceMaterials = (materials: RhinoMaterial[], settings: ViewerSettings) => {
+  const enabled = settings.colorMode === 'materials';
+  const opacity = surfaceOpacity(settings);
+
+  const textures = useMemo(
+    () => (enabled ? materials.map((material) => loadMaterialTextures(material)) : []),
+    [enabled, materials]
+  );
+  useEffect(() => () => textures.forEach(disposeMaterialTextures), [textures]);
+
+  const surfaceMaterials = useMemo(() => {
+    if (!enabled) return null;
+    const options = { opacity, wireframe: settings.wireframe, flatShading: settings.shading === 'flat' };
+    const result = new Map<number, Material>([[-1, createSurfaceMaterial(undefined, undefined, options)]]);
+    materials.forEach((material, i) => result.set(material.index, createSurfaceMaterial(material, textures[i], options)));
+    return result;
+  }, [enabled, materials, textures, opacity, settings.wireframe, settings.shading]);
+  useEffect(() => () => surfaceMaterials?.forEach((material) => material.dispose()), [surfaceMaterials]);
+
+  return surfaceMaterials;
+};
+
+const useRhinoGeometry = (rhinoObject: RhinoObject) => {
+  const geometry = useMemo(() => createBufferGeometry(rhinoObject.geometry), [rhinoObject.geometry]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  return geometry;
+};
+
+// Click/hover handlers shared by every kind of scene node
+const usePicking = ({ rhinoObject, visible, locked, hovered, pickable }: RhinoElementProps) => {
+  useCursor(hovered);
+
+  if (!visible || !pickable) {
+    return {};
+  }
+
+  return {
+    onClick: (event: ThreeEvent<MouseEvent>) => {
+      event.stopPropagation();
+      if (locked || event.delta > CLICK_TOLERANCE) return;
+      sceneActions.selectObject(rhinoObject.id, event.shiftKey);
+    },
+    onPointerOver: (event: ThreeEvent<PointerEvent>) => {
+      event.stopPropagation();
+      if (!locked) sceneActions.hoverObject(rhinoObject.id);
+    },
+    onPointerOut: () => {
+      if (hovered) sceneActions.hoverObject(null);
+    }
+  };
+};
+
+// Render materials are shared between objects, display colours get a material of their own
+const SurfaceMaterial = ({ color, material, vertexColors, settings }: {
+  color: string;
+  material?: Material;
+  vertexColors: boolean;
+  settings: ViewerSettings;
+}) => {
+  const opacity = surfaceOpacity(settings);
+  const transparent = opacity < 1;
+
+  if (material) {
+    return <primitive object={material} attach="material" />;
+  }
+
+  return (
+    // flatShading only takes effect on a fresh material, hence the key
+    <meshStandardMaterial
+      key={settings.shading}
+      color={color}
+      metalness={0.3}
+      roughness={0.4}
+      vertexColors={vertexColors}
+      wireframe={settings.wireframe}
+      flatShading={settings.shading === 'flat'}
+      transparent={transparent}
+      opacity={opacity}
+      depthWrite={!transparent}
+    />
+  );
+};
+
+const RhinoMesh = (props: RhinoElementProps) => {
+  const { rhinoObject, color, material, visible, selected, hovered, settings } = props;
+  const geometry = useRhinoGeometry(rhinoObject);
+  const handlers = usePicking(props);
+
+  return (
+    <mesh
+      geometry={geometry}
+      visible={visible}
+      castShadow
+      userData={{ objectId: rhinoObject.id }}
+      {...handlers}
+    >
+      <SurfaceMaterial
+        color={color}
+        material={material}
+        vertexColors={!!rhinoObject.geometry.colors}
+        settings={settings}
+      />
+      {(selected || hovered) && (
+        <Outlines screenspace thickness={selected ? 3 : 2} color={selected ? SELECTED_COLOR : HOVERED_COLOR} />
+      )}
+    </mesh>
+  );
+};
+
+// Curves are pre-sampled into line segment pairs
+const RhinoCurve = (props: RhinoElementProps) => {
+  const { rhinoObject, visible } = props;
+  const geometry = useRhinoGeometry(rhinoObject);
+  const handlers = usePicking(props);
+
+  return (
+    <lineSegments
+      geometry={geometry}
+      visible={visible}
+      userData={{ objectId: rhinoObject.id }}
+      {...handlers}
+    >
+      <lineBasicMaterial color={highlightColor(props)} />
+    </lineSegments>
+  );
+};
+
+const RhinoPoints = (props: RhinoElementProps) => {
+  const { rhinoObject, visible, selected, hovered } = props;
+  const geometry = useRhinoGeometry(rhinoObject);
+  const handlers = usePicking(props);
+  const vertexColors = !!rhinoObject.geometry.colors && !selected && !hovered;
+
+  return (
+    <points
+      geometry={geometry}
+      visible={visible}
+      userData={{ objectId: rhinoObject.id }}
+      {...handlers}
+    >
+      <pointsMaterial
+        key={String(vertexColors)}
+        color={vertexColors ? '#ffffff' : highlightColor(props)}
+        vertexColors={vertexColors}
+        size={6}
+        sizeAttenuation={false}
+      />
+    </points>
+  );
+};
+
+// Text dots and annotations are drawn as screen-space labels that always face the camera
+const RhinoAnnotation = (props: RhinoElementProps) => {
+  const { rhinoObject, visible, locked, selected, hovered, pickable } = props;
+  const [x, y, z] = rhinoObject.geometry.positions;
+  const interactive = visible && pickable && !locked;
+
+  if (!visible) return null;
+
+  return (
+    <Html position={[x, y, z]} center zIndexRange={[5, 0]}>
+      <div
+        className="whitespace-nowrap rounded px-1.5 py-0.5 text-xs text-white shadow-sm select-none"
+        style={{
+          backgroundColor: highlightColor(props),
+          outline: selected ? `2px solid ${SELECTED_COLOR}` : undefined,
+          pointerEvents: interactive ? 'auto' : 'none',
+          cursor: hovered ? 'pointer' : undefined
+        }}
+        onClick={(event) => sceneActions.selectObject(rhinoObject.id, event.shiftKey)}
+        onPointerEnter={() => sceneActions.hoverObject(rhinoObject.id)}
+        onPointerLeave={() => hovered && sceneActions.hoverObject(null)}
+      >
+        {rhinoObject.geometry.text}
+      </div>
+    </Html>
+  );
+};
+
+const RhinoElement = (props: RhinoElementProps) => {
+  switch (props.rhinoObject.geometry.kind) {
+    case 'curve':
+      return <RhinoCurve {...props} />;
+    case 'points':
+      return <RhinoPoints {...props} />;
+    case 'annotation':
+      return <RhinoAnnotation {...props} />;
+    case 'instance':
+      // Drawn per block by RhinoBlocks
+      return null;
+    default:
+      return <RhinoMesh {...props} />;
+  }
+};
+
+// One visible instance of a block, with the state that decides its appearance
+interface BlockPlacement {
+  object: RhinoObject;
+  // Appearance of the instance, inherited by parts that take theirs from the parent
+  color: string;
+  materialIndex: number;
+  matrix: Matrix4;
+  locked: boolean;
+  selected: boolean;
+  hovered: boolean;
+}
+
+interface BlockPartProps {
+  part: RhinoBlockPart;
+  placements: BlockPlacement[];
+  pickable: boolean;
+  settings: ViewerSettings;
+}
+
+// Every block part is drawn once for all of its instances. In "materials" mode instances are
+// split by the material their part resolves to, since one InstancedMesh has one material.
+const RhinoBlocks = ({ blocks, placements, layers, materials, surfaceMaterials, pickable, settings }: {
+  blocks: RhinoBlock[];
+  placements: Map<string, BlockPlacement[]>;
+  layers: RhinoLayer[];
+  materials: RhinoMaterial[];
+  surfaceMaterials: Map<number, Material> | null;
+  pickable: boolean;
+  settings: ViewerSettings;
+}) => (
+  <>
+    {blocks.map((block) => {
+      const blockPlacements = placements.get(block.id);
+      if (!blockPlacements) return null;
+
+      return block.parts.map((part, partIndex) => {
+        const appearanceOf = (placement: BlockPlacement) => {
+          const materialIndex = resolveMaterialIndex(part.attributes, layers, placement.materialIndex);
+          const color = resolveDisplayColor(part.attributes, layers, materials, materialIndex, placement.color);
+          return { color, material: surfaceMaterials?.get(materialIndex), materialIndex };
+        };
+        const key = `${block.id}/${partIndex}`;
+
+        if (part.geometry.kind !== 'mesh') {
+          return (
+            <RhinoBlockPartCopies
+              key={key}
+              part={part}
+              placements={blockPlacements}
+              appearanceOf={appearanceOf}
+              pickable={pickable}
+              settings={settings}
+            />
+          );
         }
-        
-        return (
-          <mesh key={rhinoObj.id} geometry={geometry}>
-            <meshStandardMaterial 
-              color={materialColor}
-              metalness={0.3}
-              roughness={0.4}
-              vertexColors={rhinoObj.geometry.colors ? true : false}
+
+        if (!surfaceMaterials) {
+          return (
+            <RhinoInstancedMesh
+              key={key}
+              part={part}
+              placements={blockPlacements}
+              colors={blockPlacements.map((placement) => highlightColor({ ...placement, ...appearanceOf(placement) }))}
+              pickable={pickable}
+              settings={settings}
             />
-          </mesh>
-        );
-      })}
-    </group>
+          );
+        }
+
+        const byMaterial = new Map<number, BlockPlacement[]>();
+        for (const placement of blockPlacements) {
+          const { materialIndex } = appearanceOf(placement);
+          byMaterial.set(materialIndex, [...(byMaterial.get(materialIndex) ?? []), placement]);
+        }
+        // White instance colours leave the material's own colour untouched
+        return [...byMaterial.entries()].map(([materialIndex, group]) => (
+          <RhinoInstancedMesh
+            key={`${key}/${materialIndex}`}
+            part={part}
+            placements={group}
+            colors={group.map((placement) => highlightColor({ ...placement, color: '#ffffff' }))}
+            material={surfaceMaterials.get(materialIndex)}
+            pickable={pickable}
+            settings={settings}
+          />
+        ));
+      });
+    })}
+  </>
+);
+
+// Mesh parts become a single InstancedMesh; selection and hover are shown through instance colours
+const RhinoInstancedMesh = ({ part, placements, colors, material, pickable, settings }: BlockPartProps & {
+  colors: string[];
+  material?: Material;
+}) => {
+  const meshRef = useRef<InstancedMesh>(null);
+  const geometry = useMemo(() => createBufferGeometry(part.geometry), [part.geometry]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useCursor(placements.some((placement) => placement.hovered));
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const partMatrix = new Matrix4().fromArray(part.transform);
+    const matrix = new Matrix4();
+    const color = new Color();
+    placements.forEach((placement, i) => {
+      mesh.setMatrixAt(i, matrix.multiplyMatrices(placement.matrix, partMatrix));
+      mesh.setColorAt(i, color.set(colors[i]));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    // Culling and raycasting test against bounds that span all instances
+    mesh.computeBoundingBox();
+    mesh.computeBoundingSphere();
+  }, [part.transform, placements, colors]);
+
+  const placementAt = (event: ThreeEvent<PointerEvent | MouseEvent>) =>
+    event.instanceId === undefined ? undefined : placements[event.instanceId];
+
+  const handlers = pickable ? {
+    onClick: (event: ThreeEvent<MouseEvent>) => {
+      event.stopPropagation();
+      const placement = placementAt(event);
+      if (!placement || placement.locked || event.delta > CLICK_TOLERANCE) return;
+      sceneActions.selectObject(placement.object.id, event.shiftKey);
+    },
+    onPointerOver: (event: ThreeEvent<PointerEvent>) => {
+      event.stopPropagation();
+      const placement = placementAt(event);
+      if (placement && !placement.locked) sceneActions.hoverObject(placement.object.id);
+    },
+    onPointerOut: (event: ThreeEvent<PointerEvent>) => {
+      if (placementAt(event)?.hovered) sceneActions.hoverObject(null);
+    }
+  } : {};
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[geometry, undefined, placements.length]}
+      castShadow
+      userData={{ objectIds: placements.map((placement) => placement.object.id) }}
+      {...handlers}
+    >
+      <SurfaceMaterial color="#ffffff" material={material} vertexColors={!!part.geometry.colors} settings={settings} />
+    </instancedMesh>
+  );
+};
+
+// Curves, points and labels have no instanced counterpart and are drawn once per instance
+const RhinoBlockPartCopies = ({ part, placements, appearanceOf, pickable, settings }: BlockPartProps & {
+  appearanceOf: (placement: BlockPlacement) => { color: string; material?: Material };
+}) => {
+  const partMatrix = useMemo(() => new Matrix4().fromArray(part.transform), [part.transform]);
+
+  return (
+    <>
+      {placements.map((placement) => (
+        <group
+          key={placement.object.id}
+          matrixAutoUpdate={false}
+          matrix={placement.matrix.clone().multiply(partMatrix)}
+        >
+          <RhinoElement
+            rhinoObject={{ ...placement.object, geometry: part.geometry }}
+            {...appearanceOf(placement)}
+            visible
+            locked={placement.locked}
+            selected={placement.selected}
+            hovered={placement.hovered}
+            pickable={pickable}
+            settings={settings}
+          />
+        </group>
+      ))}
+    </>
   );
 };
 
+// Line and point picking tolerances are in world units, so scale them with the model
+const PickTolerance = ({ bounds }: { bounds: Box3 }) => {
+  const raycaster = useThree((state) => state.raycaster);
+
+  useEffect(() => {
+    if (bounds.isEmpty()) return;
+    const threshold = bounds.getSize(new Vector3()).length() * 0.005;
+    raycaster.params.Line = { threshold };
+    raycaster.params.Points = { threshold };
+  }, [raycaster, bounds]);
+
+  return null;
+};
+
+// Reports clicks on the model as surface points with the face normal in world space
+const SurfacePicker = ({ onPick, children }: { onPick?: (pick: SurfacePick) => void; children: ReactNode }) => {
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    if (event.delta > CLICK_TOLERANCE || !event.face || !onPick) return;
+
+    const normal = event.face.normal.clone();
+    if (event.instanceId !== undefined && event.object instanceof InstancedMesh) {
+      const instanceMatrix = new Matrix4();
+      event.object.getMatrixAt(event.instanceId, instanceMatrix);
+      normal.transformDirection(instanceMatrix);
+    }
+    normal.transformDirection(event.object.matrixWorld);
+    // Face towards the viewer, whichever way the mesh was wound
+    if (normal.dot(event.ray.direction) > 0) normal.negate();
+
+    onPick({
+      point: toPoint3(event.point),
+      normal: toPoint3(normal),
+      objectId: event.instanceId === undefined
+        ? event.object.userData.objectId
+        : event.object.userData.objectIds?.[event.instanceId]
+    });
+  };
+
+  return <group onClick={onPick ? handleClick : undefined}>{children}</group>;
+};
+
+// Pointer events skip hits on the parts a section has cut away
+const sectionAwareEvents: typeof pointerEvents = (store) => ({
+  ...pointerEvents(store),
+  filter: (hits: Intersection[]) => hits.filter(({ object, point }) => {
+    const material = (object as Mesh).material;
+    const planes = (Array.isArray(material) ? material[0] : material)?.clippingPlanes;
+    return !planes || !isClipped(planes, point);
+  })
+});
+
 const LoadingSpinner = () => (
   <div className="flex items-center justify-center h-full">
     <div className="flex flex-col items-center space-y-4">
@@ -168,49 +654,232 @@ const LoadingSpinner = () => (
   </div>
 );
 
-export const CADViewer = ({ file, controls, onControlsChange }: CADViewerProps) => {
+export const CADViewer = ({
+  file,
+  cachedScene,
+  controls,
+  onControlsChange,
+  onSnapshotReady,
+  onSurfacePick,
+  children
+}: CADViewerProps) => {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [remeshing, setRemeshing] = useState(false);
+  const { settings } = useViewerSettings();
+  const { objects, layers, visibleLayers, views, unitSystem } = useCadScene();
+
+  // Meshing options are read through a ref so that changing them re-meshes instead of re-parsing
+  const meshing = useMemo(() => meshingOptions(settings), [settings]);
+  const meshingKey = JSON.stringify(meshing);
+  const meshingRef = useRef(meshing);
+  meshingRef.current = meshing;
+  // Options the objects on screen were meshed with
+  const appliedMeshingKey = useRef<string | null>(null);
+  // Cached scenes have no document in the parser worker, so re-meshing them parses the file again
+  const loadedFromCache = useRef(false);
+  const startViewShown = useRef(false);
+  // Renders a frame through the ambient occlusion effect while it is on
+  const renderFrame = useRef<(() => void) | null>(null);
+
+  // Zoom to fit frames whatever is currently shown
+  const bounds = useMemo(
+    () => computeBounds(objects.filter((object) => isObjectVisible(object, layers, visibleLayers))),
+    [objects, layers, visibleLayers]
+  );
+
+  // Round grid cells in the display unit, sized to what is in view
+  const grid = useMemo(() => {
+    const extent = bounds.isEmpty() ? 40 : bounds.getSize(new Vector3()).length();
+    return gridSpacing(extent / Math.max(controls.zoom, 1e-3), unitSystem, settings.displayUnit);
+  }, [bounds, controls.zoom, unitSystem, settings.displayUnit]);
+
+  // Parse the file with the loader for its format; a new file cancels the previous parse
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    const parseRhinoFile = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setProgress(null);
+        appliedMeshingKey.current = null;
+        loadedFromCache.current = false;
+        startViewShown.current = false;
+        sceneActions.startLoading(); // Clear previous objects
+        measurementActions.reset();
+        sectionActions.reset();
+
+        const meshing = meshingRef.current;
+        if (cachedScene && (cachedScene.meshingKey === null || cachedScene.meshingKey === JSON.stringify(meshing))) {
+          console.log('=== CADViewer: Opening cached scene ===');
+          const { objects, blocks, skipped, ...info } = cachedScene.scene;
+          sceneActions.setDocument(info);
+          sceneActions.setBlocks(blocks);
+          sceneActions.setObjects(objects);
+          sceneActions.setSkipped(skipped);
+          appliedMeshingKey.current = cachedScene.meshingKey;
+          loadedFromCache.current = true;
+          sceneActions.finishLoading(cachedScene.meshingKey);
+          return;
+        }
+        
+        console.log('=== CADViewer: Starting model file parsing ===');
+        console.log('File name:', file.name);
+        console.log('File size:', file.size, 'bytes');
+        console.log('File type:', file.type);
+        console.log('File last modified:', new Date(file.lastModified));
+        
+        const { scene: { objects, skipped }, loader } = await loadModel(file, {
+          signal: abortController.signal,
+          onProgress: setProgress,
+          onDocument: sceneActions.setDocument,
+          onBlocks: sceneActions.setBlocks,
+          onObjects: sceneActions.addObjects,
+          meshing
+        });
+        console.log('Loaded with the', loader.label, 'loader');
+        // Mesh formats have nothing to re-tessellate
+        appliedMeshingKey.current = loader.remeshable ? JSON.stringify(meshing) : null;
+        
+        console.log('=== Parsing completed successfully ===');
+        console.log('Number of objects parsed:', objects.length);
+        
+        if (objects.length === 0) {
+          console.warn('No objects found in the file');
+        }
+        
+        sceneActions.setObjects(objects);
+        sceneActions.setSkipped(skipped);
+        sceneActions.finishLoading(appliedMeshingKey.current);
+      } catch (err) {
+        if (abortController.signal.aborted) {
+          console.log('=== CADViewer: Parsing cancelled ===');
+          return;
+        }
+        console.error('=== CADViewer: Error parsing model file ===');
+        console.error('Error message:', err instanceof Error ? err.message : err);
+        console.error('Full error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to parse model file');
+      } finally {
+        if (!abortController.signal.aborted) {
+          console.log('=== CADViewer: Parsing finished, setting loading to false ===');
+          setLoading(false);
+        }
+      }
+    };
+
+    console.log('=== CADViewer: useEffect triggered with new file ===');
+    parseRhinoFile();
+
+    return () => abortController.abort();
+  }, [file, cachedScene]);
+
+  // Open the model the way it was last seen in Rhino, through its perspective viewport
+  useEffect(() => {
+    if (loading || error || startViewShown.current || bounds.isEmpty()) return;
+    startViewShown.current = true;
+
+    const view = views.find((view) => view.source === 'viewport' && !view.parallel);
+    if (view) onControlsChange(controlsFromView(view, bounds));
+  }, [loading, error, bounds, views, onControlsChange]);
+
+  // Re-mesh the loaded model whenever the meshing quality changes
+  useEffect(() => {
+    if (loading || error || appliedMeshingKey.current === null || appliedMeshingKey.current === meshingKey) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    setRemeshing(true);
+    setProgress(null);
+    sceneActions.startRemeshing();
+
+    const options = { signal: abortController.signal, onProgress: setProgress };
+    const remeshed = loadedFromCache.current
+      ? loadModel(file, { ...options, meshing: meshingRef.current }).then(({ scene }) => scene)
+      : rhinoService.remesh(meshingRef.current, options);
+
+    remeshed
+      .then(({ objects, blocks, skipped }) => {
+        appliedMeshingKey.current = meshingKey;
+        loadedFromCache.current = false;
+        sceneActions.setBlocks(blocks);
+        sceneActions.setObjects(objects);
+        sceneActions.setSkipped(skipped);
+        sceneActions.finishLoading(meshingKey);
+      })
+      .catch((err) => {
+        if (!abortController.signal.aborted) {
+          console.warn('=== CADViewer: Re-meshing failed ===', err);
+          // The previous geometry stays on screen, and is complete for the options it was meshed with
+          sceneActions.finishLoading(appliedMeshingKey.current);
+        }
+      })
+      .finally(() => {
+        if (!abortController.signal.aborted) setRemeshing(false);
+      });
+
+    return () => {
+      abortController.abort();
+      setRemeshing(false);
+    };
+  }, [meshingKey, loading, error, file]);
+
   return (
-    <div className="w-full h-full rounded-lg overflow-hidden bg-gray-50">
-      <Canvas>
-        <PerspectiveCamera makeDefault position={[5, 5, 5]} />
+    <div className="relative w-full h-full rounded-lg overflow-hidden bg-gray-50">
+      <Canvas
+        shadows
+        gl={{ stencil: true }}
+        events={sectionAwareEvents}
+        onPointerMissed={(event) => !event.shiftKey && sceneActions.clearSelection()}
+        onCreated={({ get }) => onSnapshotReady?.(() => {
+          const { gl, scene, camera } = get();
+          // The drawing buffer is cleared after each frame, so render one right before reading it
+          if (renderFrame.current) renderFrame.current();
+          else gl.render(scene, camera);
+          return snapshotCanvas(gl.domElement);
+        })}
+      >
+        <color attach="background" args={[settings.background]} />
+        <ViewerCamera controls={controls} onControlsChange={onControlsChange} bounds={bounds} />
+        <PickTolerance bounds={bounds} />
         
         {/* Lighting */}
-        <ambientLight intensity={0.4} />
-        <directionalLight position={[10, 10, 5]} intensity={1} />
-        <directionalLight position={[-10, -10, -5]} intensity={0.3} />
-        
-        {/* Environment */}
-        <Environment preset="apartment" />
+        <ViewerLighting bounds={bounds} environment={settings.environment} shadows={settings.shadows} />
+        {settings.ambientOcclusion && <AmbientOcclusion bounds={bounds} renderRef={renderFrame} />}
         
         {/* Grid */}
-        <Grid
-          cellSize={1}
-          cellThickness={0.5}
-          cellColor="#666666"
-          sectionSize={10}
-          sectionThickness={1}
-          sectionColor="#999999"
-          fadeDistance={50}
-          fadeStrength={1}
-          followCamera={false}
-          infiniteGrid={true}
-        />
+        {settings.showGrid && (
+          <Grid
+            rotation={[Math.PI / 2, 0, 0]}
+            cellSize={grid.cellSize}
+            cellThickness={0.5}
+            cellColor="#666666"
+            sectionSize={grid.sectionSize}
+            sectionThickness={1}
+            sectionColor="#999999"
+            fadeDistance={grid.sectionSize * 20}
+            fadeStrength={1}
+            followCamera={false}
+            infiniteGrid={true}
+          />
+        )}
         
         {/* 3D Model */}
         <Suspense fallback={null}>
-          <RhinoModel file={file} />
+          <MeasureTool>
+            <SurfacePicker onPick={onSurfacePick}>
+              <SectionClip bounds={bounds}>
+                <RhinoModel loading={loading} error={error} picking={!!onSurfacePick} />
+              </SectionClip>
+            </SurfacePicker>
+          </MeasureTool>
+          <SectionGizmos bounds={bounds} />
+          {children}
         </Suspense>
         
-        {/* Controls */}
-        <OrbitControls
-          enablePan={true}
-          enableZoom={true}
-          enableRotate={true}
-          dampingFactor={0.05}
-          screenSpacePanning={false}
-          minDistance={2}
-          maxDistance={50}
-        />
       </Canvas>
       
       {/* File info overlay */}
@@ -218,8 +887,27 @@ export const CADViewer = ({ file, controls, onControlsChange }: CADViewerProps)
         <div className="text-sm">
           <p className="font-medium text-gray-900">{file.name}</p>
           <p className="text-gray-600">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+          {settings.showGrid && <p className="text-gray-600">Grid: {grid.label}</p>}
         </div>
       </div>
+
+      {/* Parsing progress overlay */}
+      {(loading || remeshing) && (
+        <div className="absolute bottom-4 left-4 right-4 bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-sm">
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="flex items-center text-gray-900">
+              <Loader className="w-4 h-4 mr-2 animate-spin text-primary" />
+              {loading ? 'Parsing model...' : 'Re-meshing model...'}
+            </span>
+            {progress && progress.total > 0 && (
+              <span className="text-gray-600">
+                {progress.processed} / {progress.total} objects
+              </span>
+            )}
+          </div>
+          <Progress value={progress && progress.total > 0 ? (progress.processed / progress.total) * 100 : 0} />
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Cloud, Cpu, Loader } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useComputeHealth } from "@/hooks/use-compute-health";
+
+export const ComputeStatusBadge = () => {
+  const health = useComputeHealth();
+
+  if (health.status === 'checking' || health.status === 'unknown') {
+    return (
+      <Badge variant="outline" className="gap-1">
+        <Loader className="w-3 h-3 animate-spin" />
+        Checking Compute…
+      </Badge>
+    );
+  }
+
+  const online = health.status === 'online';
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={online ? "gap-1 border-green-500 text-green-700" : "gap-1 text-gray-600"}
+        >
+          {online ? <Cloud className="w-3 h-3" /> : <Cpu className="w-3 h-3" />}
+          {online ? 'Rhino Compute' : 'Local rhino3dm'}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        {online
+          ? `Parsing via ${health.url}${health.version ? ` (${health.version}, ${health.latencyMs} ms)` : ''}`
+          : `Compute unavailable at ${health.url}${health.error ? `: ${health.error}` : ''}. Files are parsed in the browser.`}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,94 @@
+import { useMemo } from "react";
+import { Weight } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useCadScene } from "@/hooks/use-cad-scene";
+import { useDensities } from "@/hooks/use-densities";
+import { DENSITY_PRESETS } from "@/lib/mass";
+import { resolveMaterialIndex } from "@/lib/materials";
+
+const PRESETS_LIST_ID = 'density-presets';
+
+const DensityInput = ({ value, onChange }: { value: number | undefined; onChange: (value: number | null) => void }) => (
+  <Input
+    type="number"
+    min={0}
+    list={PRESETS_LIST_ID}
+    value={value ?? ''}
+    placeholder="kg/m³"
+    className="h-7 w-24 shrink-0 text-xs"
+    onChange={(e) => onChange(e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0))}
+  />
+);
+
+// Densities of the materials and layers the model's objects use, for the mass estimates.
+// A material's density wins over its layer's.
+export const DensityPanel = () => {
+  const { objects, layers, materials, materialOverrides } = useCadScene();
+  const { densities, setMaterialDensity, setLayerDensity } = useDensities();
+
+  const usedMaterials = useMemo(() => {
+    const indices = new Set(
+      objects.map((object) => materialOverrides[object.id] ?? resolveMaterialIndex(object.attributes, layers))
+    );
+    return materials.filter((material) => indices.has(material.index));
+  }, [objects, layers, materials, materialOverrides]);
+
+  const usedLayers = useMemo(() => {
+    const indices = new Set(objects.map((object) => object.attributes.layer));
+    return layers.filter((layer) => indices.has(layer.index));
+  }, [objects, layers]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center">
+          <Weight className="w-4 h-4 mr-2" />
+          Densities
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <datalist id={PRESETS_LIST_ID}>
+          {DENSITY_PRESETS.map((preset) => (
+            <option key={preset.name} value={preset.density} label={preset.name} />
+          ))}
+        </datalist>
+
+        {usedMaterials.length === 0 && usedLayers.length === 0 ? (
+          <p className="text-sm text-gray-500">Open a model to set the densities of its parts.</p>
+        ) : (
+          <>
+            {usedMaterials.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-gray-500">Materials</p>
+                {usedMaterials.map((material) => (
+                  <div key={material.index} className="flex items-center gap-2">
+                    <span className="flex-1 truncate text-sm" title={material.name}>{material.name}</span>
+                    <DensityInput
+                      value={densities.materials[material.name]}
+                      onChange={(value) => setMaterialDensity(material.name, value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            {usedLayers.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-gray-500">Layers</p>
+                {usedLayers.map((layer) => (
+                  <div key={layer.index} className="flex items-center gap-2">
+                    <span className="flex-1 truncate text-sm" title={layer.fullPath}>{layer.fullPath}</span>
+                    <DensityInput
+                      value={densities.layers[layer.fullPath]}
+                      onChange={(value) => setLayerDensity(layer.fullPath, value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useCadScene } from "@/hooks/use-cad-scene";
+import { useToast } from "@/hooks/use-toast";
+import { downloadBlob, EXPORT_FORMATS, exportModel, type ExportFormat } from "@/lib/export";
+
+interface ExportMenuProps {
+  // Name of the opened file, used for the exported file names
+  fileName?: string;
+}
+
+type ExportScope = 'all' | 'selection';
+
+export const ExportMenu = ({ fileName }: ExportMenuProps) => {
+  const { objects, blocks, layers, materials, materialOverrides, selectedIds } = useCadScene();
+  const { toast } = useToast();
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [exporting, setExporting] = useState(false);
+
+  const hasSelection = selectedIds.length > 0;
+  const exportScope = hasSelection ? scope : 'all';
+
+  const runExport = async (format: ExportFormat) => {
+    const selected = new Set(selectedIds);
+    const source = {
+      objects: exportScope === 'selection' ? objects.filter((object) => selected.has(object.id)) : objects,
+      blocks,
+      layers,
+      materials,
+      materialOverrides
+    };
+    const baseName = (fileName?.replace(/\.[^.]+$/, '') || 'model') + (exportScope === 'selection' ? '-selection' : '');
+
+    setExporting(true);
+    try {
+      downloadBlob(await exportModel(source, format, baseName));
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={objects.length === 0 || exporting}>
+          {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Objects</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={exportScope} onValueChange={(value) => setScope(value as ExportScope)}>
+          <DropdownMenuRadioItem value="all">Whole model ({objects.length})</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="selection" disabled={!hasSelection}>
+            Selection ({selectedIds.length})
+          </DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Format</DropdownMenuLabel>
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => runExport(format)}>
+            <div>
+              <p className="text-sm">{EXPORT_FORMATS[format].label}</p>
+              <p className="text-xs text-gray-500">{EXPORT_FORMATS[format].description}</p>
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
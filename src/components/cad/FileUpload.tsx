@@ -3,11 +3,17 @@ import { useDropzone } from "react-dropzone";
 import { Upload, FileIcon } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { getModelLoaders } from "@/services/modelLoaders";
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
 }
 
+// Every registered loader's extensions; the browser's MIME types for CAD formats are unreliable
+const ACCEPT = {
+  'application/octet-stream': getModelLoaders().flatMap((loader) => loader.extensions)
+};
+
 export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
@@ -18,10 +24,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/octet-stream': ['.3dm'],
-      'model/rhino': ['.3dm']
-    },
+    accept: ACCEPT,
     maxFiles: 1
   });
 
@@ -51,11 +54,11 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
               <h3 className="text-lg font-semibold text-gray-900">
                 {isDragActive 
                   ? 'Drop your file here...' 
-                  : 'Upload your 3DM file'
+                  : 'Upload your model file'
                 }
               </h3>
               <p className="text-gray-600">
-                Drag and drop your Rhino 3DM file or click to browse
+                Drag and drop a Rhino, STL, OBJ, PLY or glTF file or click to browse
               </p>
             </div>
 
@@ -67,7 +70,10 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
         </div>
 
         <div className="mt-8 text-sm text-gray-500">
-          <p>Supported formats: .3dm (Rhino 3D)</p>
+          <p>
+            Supported formats:{' '}
+            {getModelLoaders().map((loader) => `${loader.extensions.join(', ')} (${loader.label})`).join(', ')}
+          </p>
           <p>Maximum size: 50MB</p>
         </div>
       </CardContent>
@@ -0,0 +1,97 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, Eye, EyeOff, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { RhinoLayer } from "@/services/rhinoCompute";
+
+interface LayerTreeProps {
+  layers: RhinoLayer[];
+  hiddenLayers: number[];
+  visibleLayers: Set<number>;
+  onToggleLayer: (layerIndex: number) => void;
+}
+
+export const LayerTree = ({ layers, hiddenLayers, visibleLayers, onToggleLayer }: LayerTreeProps) => {
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  const childrenByParent = useMemo(() => {
+    const map = new Map<number | null, RhinoLayer[]>();
+    for (const layer of layers) {
+      const siblings = map.get(layer.parentIndex) ?? [];
+      siblings.push(layer);
+      map.set(layer.parentIndex, siblings);
+    }
+    return map;
+  }, [layers]);
+
+  const toggleCollapsed = (layerIndex: number) => {
+    setCollapsed((previous) => {
+      const next = new Set(previous);
+      if (next.has(layerIndex)) {
+        next.delete(layerIndex);
+      } else {
+        next.add(layerIndex);
+      }
+      return next;
+    });
+  };
+
+  if (layers.length === 0) {
+    return <p className="text-sm text-gray-500">No layers in this model</p>;
+  }
+
+  const renderLayer = (layer: RhinoLayer, depth: number) => {
+    const children = childrenByParent.get(layer.index) ?? [];
+    const isCollapsed = collapsed.has(layer.index);
+    const isOn = !hiddenLayers.includes(layer.index);
+
+    return (
+      <div key={layer.index}>
+        <div className="flex items-center space-x-2" style={{ paddingLeft: depth * 12 }}>
+          {children.length > 0 ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => toggleCollapsed(layer.index)}
+            >
+              {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            </Button>
+          ) : (
+            <span className="w-6" />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => onToggleLayer(layer.index)}
+          >
+            {isOn ? (
+              <Eye className={cn("w-3 h-3", !visibleLayers.has(layer.index) && "text-gray-400")} />
+            ) : (
+              <EyeOff className="w-3 h-3 text-gray-400" />
+            )}
+          </Button>
+          <div
+            className="w-3 h-3 rounded-full shrink-0"
+            style={{ backgroundColor: layer.color }}
+          />
+          <span
+            className={cn("text-sm flex-1 truncate", !visibleLayers.has(layer.index) && "text-gray-400")}
+            title={layer.fullPath}
+          >
+            {layer.name}
+          </span>
+          {layer.locked && <Lock className="w-3 h-3 text-gray-400" />}
+        </div>
+        {!isCollapsed && children.map((child) => renderLayer(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      {(childrenByParent.get(null) ?? []).map((layer) => renderLayer(layer, 0))}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { useMemo } from "react";
+import { Image, RotateCcw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useCadScene } from "@/hooks/use-cad-scene";
+import { DEFAULT_MATERIAL_COLOR, resolveMaterialIndex } from "@/lib/materials";
+import type { RhinoMaterial } from "@/services/rhinoCompute";
+
+interface MaterialBrowserProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const Swatch = ({ material }: { material?: RhinoMaterial }) => {
+  const texture = material?.textures.diffuse;
+  const color = material?.pbr?.baseColor ?? material?.diffuseColor ?? DEFAULT_MATERIAL_COLOR;
+
+  return texture?.url ? (
+    <img src={texture.url} alt="" className="w-8 h-8 rounded border object-cover shrink-0" />
+  ) : (
+    <div className="w-8 h-8 rounded border shrink-0" style={{ backgroundColor: color }} />
+  );
+};
+
+// The document's render materials, with how many objects use each; assigning one
+// to the selection overrides the file's assignment until it is reset
+export const MaterialBrowser = ({ open, onOpenChange }: MaterialBrowserProps) => {
+  const { objects, layers, materials, materialOverrides, selectedIds, assignMaterial } = useCadScene();
+
+  const usage = useMemo(() => {
+    const counts = new Map<number, number>();
+    for (const object of objects) {
+      const index = materialOverrides[object.id] ?? resolveMaterialIndex(object.attributes, layers);
+      counts.set(index, (counts.get(index) ?? 0) + 1);
+    }
+    return counts;
+  }, [objects, layers, materialOverrides]);
+
+  const overriddenIds = Object.keys(materialOverrides);
+  const selectionOverridden = selectedIds.some((id) => id in materialOverrides);
+
+  const rows: Array<{ index: number; name: string; material?: RhinoMaterial }> = [
+    { index: -1, name: 'Default' },
+    ...materials.map((material) => ({ index: material.index, name: material.name, material }))
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Materials</DialogTitle>
+          <DialogDescription>
+            {selectedIds.length > 0
+              ? `Assign a material to the ${selectedIds.length} selected object${selectedIds.length === 1 ? '' : 's'}.`
+              : 'Select objects in the viewer to assign them a different material.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-80">
+          <div className="space-y-1 pr-3">
+            {rows.map(({ index, name, material }) => (
+              <div key={index} className="flex items-center gap-3 rounded p-1.5 hover:bg-gray-50">
+                <Swatch material={material} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{name}</p>
+                  <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                    <span>{usage.get(index) ?? 0} objects</span>
+                    {material?.pbr && <Badge variant="secondary" className="text-xs">PBR</Badge>}
+                    {material?.textures.diffuse && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs"
+                        title={material.textures.diffuse.fileName}
+                      >
+                        <Image className="w-3 h-3 mr-1" />
+                        {material.textures.diffuse.url ? 'Texture' : 'Texture not embedded'}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={selectedIds.length === 0}
+                  onClick={() => assignMaterial(selectedIds, index)}
+                >
+                  Assign
+                </Button>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!selectionOverridden}
+            onClick={() => assignMaterial(selectedIds, null)}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset selection
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={overriddenIds.length === 0}
+            onClick={() => assignMaterial(overriddenIds, null)}
+          >
+            Reset all ({overriddenIds.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,90 @@
+import { Box, MoveDiagonal, Ruler, Trash2, Triangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCadScene } from "@/hooks/use-cad-scene";
+import { useMeasurements } from "@/hooks/use-measurements";
+import { useViewerSettings } from "@/hooks/use-viewer-settings";
+import { formatMeasurement, type MeasureTool } from "@/lib/measure";
+import { lengthUnitAbbreviation } from "@/lib/units";
+
+const TOOLS: Array<{ id: Exclude<MeasureTool, 'none'>; icon: typeof Ruler; label: string; hint: string }> = [
+  { id: 'distance', icon: MoveDiagonal, label: 'Distance', hint: 'Click two points on the model.' },
+  { id: 'angle', icon: Triangle, label: 'Angle', hint: 'Click a point, the vertex, then a second point.' },
+  { id: 'bbox', icon: Box, label: 'Box', hint: 'Click an object to measure its bounding box.' }
+];
+
+export const MeasurePanel = () => {
+  const { tool, pending, measurements, setTool, rename, remove } = useMeasurements();
+  const { unitSystem } = useCadScene();
+  const { settings } = useViewerSettings();
+
+  const activeTool = TOOLS.find((t) => t.id === tool);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center">
+            <Ruler className="w-4 h-4 mr-2" />
+            Measure
+          </CardTitle>
+          <span className="text-xs text-gray-500">Units: {lengthUnitAbbreviation(settings.displayUnit, unitSystem)}</span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          {TOOLS.map((t) => (
+            <Button
+              key={t.id}
+              variant={tool === t.id ? "default" : "outline"}
+              size="sm"
+              className="flex flex-col h-16 p-2"
+              onClick={() => setTool(tool === t.id ? 'none' : t.id)}
+            >
+              <t.icon className="w-4 h-4 mb-1" />
+              <span className="text-xs">{t.label}</span>
+            </Button>
+          ))}
+        </div>
+
+        {activeTool && (
+          <p className="text-xs text-gray-500">
+            {activeTool.hint}
+            {pending.length > 0 && ' Press Esc to start over.'}
+          </p>
+        )}
+
+        {measurements.length === 0 ? (
+          <p className="text-sm text-gray-500">No measurements yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {measurements.map((measurement) => (
+              <div key={measurement.id} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <Input
+                    value={measurement.name}
+                    className="h-7 text-xs"
+                    onChange={(e) => rename(measurement.id, e.target.value)}
+                  />
+                  <p className="text-xs font-mono text-gray-700 truncate">
+                    {formatMeasurement(measurement, unitSystem, settings.displayUnit)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  title="Delete measurement"
+                  onClick={() => remove(measurement.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
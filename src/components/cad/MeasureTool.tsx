@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { useThree, type ThreeEvent } from "@react-three/fiber";
+import { Html, Line } from "@react-three/drei";
+import { BoxGeometry, EdgesGeometry, Mesh } from "three";
+import { useCadScene, sceneActions } from "@/hooks/use-cad-scene";
+import { useMeasurements } from "@/hooks/use-measurements";
+import { useViewerSettings } from "@/hooks/use-viewer-settings";
+import { computeBounds } from "@/lib/geometry";
+import {
+  boxSize,
+  findSnap,
+  formatMeasurement,
+  midpoint,
+  toPoint3,
+  type Measurement,
+  type Point3,
+  type SnapPoint
+} from "@/lib/measure";
+import type { LengthUnit } from "@/lib/units";
+
+// Pointer travel (px) beyond which a click is treated as the end of an orbit drag
+const CLICK_TOLERANCE = 4;
+
+const LINE_COLOR = '#f43f5e';
+
+const SNAP_COLORS: Record<SnapPoint['kind'], string> = {
+  vertex: '#22c55e',
+  face: '#3b82f6',
+  edge: '#f97316',
+  surface: '#a1a1aa'
+};
+
+const ORIGIN = new Float32Array(3);
+
+const Label = ({ position, children }: { position: Point3; children: ReactNode }) => (
+  <Html position={position} center zIndexRange={[10, 0]} style={{ pointerEvents: 'none' }}>
+    <div className="whitespace-nowrap rounded bg-gray-900/80 px-1.5 py-0.5 text-xs text-white">
+      {children}
+    </div>
+  </Html>
+);
+
+// Fixed pixel-size dot, readable whatever the model units
+const Marker = ({ position, color = LINE_COLOR }: { position: Point3; color?: string }) => (
+  <points position={position} renderOrder={1}>
+    <bufferGeometry>
+      <bufferAttribute attach="attributes-position" args={[ORIGIN, 3]} />
+    </bufferGeometry>
+    <pointsMaterial color={color} size={8} sizeAttenuation={false} depthTest={false} />
+  </points>
+);
+
+const BoxEdges = ({ min, max }: { min: Point3; max: Point3 }) => {
+  const geometry = useMemo(() => {
+    const box = new BoxGeometry(...boxSize(min, max));
+    const edges = new EdgesGeometry(box);
+    box.dispose();
+    return edges;
+  }, [min, max]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <lineSegments geometry={geometry} position={midpoint(min, max)} renderOrder={1}>
+      <lineBasicMaterial color={LINE_COLOR} depthTest={false} />
+    </lineSegments>
+  );
+};
+
+const MeasurementShape = ({ measurement, unitSystem, unit }: { measurement: Measurement; unitSystem: string; unit: LengthUnit }) => {
+  const label = `${measurement.name}: ${formatMeasurement(measurement, unitSystem, unit)}`;
+
+  if (measurement.kind === 'bbox') {
+    return (
+      <group>
+        <BoxEdges min={measurement.min} max={measurement.max} />
+        <Label position={midpoint(measurement.min, measurement.max)}>{label}</Label>
+      </group>
+    );
+  }
+
+  return (
+    <group>
+      <Line points={measurement.points} color={LINE_COLOR} lineWidth={2} depthTest={false} />
+      {measurement.points.map((point, index) => (
+        <Marker key={index} position={point} />
+      ))}
+      <Label
+        position={measurement.kind === 'distance' ? midpoint(...measurement.points) : measurement.points[1]}
+      >
+        {label}
+      </Label>
+    </group>
+  );
+};
+
+// Wraps the model: while a measure tool is active, clicks on it place snapped points
+// (or pick an object for the box tool) instead of selecting
+export const MeasureTool = ({ children }: { children: ReactNode }) => {
+  const { tool, pending, measurements, addPoint, addBox, cancelPending } = useMeasurements();
+  const { objects, unitSystem } = useCadScene();
+  const { settings } = useViewerSettings();
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const [snap, setSnap] = useState<SnapPoint | null>(null);
+
+  const active = tool !== 'none';
+
+  // Meshes stop reporting pointer out while a tool is active, so drop any stale hover
+  useEffect(() => {
+    if (active) {
+      sceneActions.hoverObject(null);
+    } else {
+      setSnap(null);
+    }
+  }, [active]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') cancelPending();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cancelPending]);
+
+  const snapFromEvent = (event: ThreeEvent<PointerEvent | MouseEvent>): SnapPoint => {
+    if (!(event.object instanceof Mesh) || !event.face) {
+      return { point: toPoint3(event.point), kind: 'surface' };
+    }
+    return findSnap(event.object, event.face, event.point, camera, size, event.instanceId);
+  };
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    if (tool === 'distance' || tool === 'angle') setSnap(snapFromEvent(event));
+  };
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    if (event.delta > CLICK_TOLERANCE) return;
+
+    if (tool === 'bbox') {
+      // Instanced block meshes list one object id per instance
+      const objectId = event.instanceId === undefined
+        ? event.object.userData.objectId
+        : event.object.userData.objectIds?.[event.instanceId];
+      const object = objects.find((o) => o.id === objectId);
+      if (!object) return;
+      const bounds = computeBounds([object]);
+      addBox(object.id, toPoint3(bounds.min), toPoint3(bounds.max));
+      return;
+    }
+
+    addPoint(snapFromEvent(event).point);
+  };
+
+  const preview = snap && pending.length > 0 ? [...pending, snap.point] : pending;
+
+  return (
+    <>
+      <group
+        onPointerMove={active ? handlePointerMove : undefined}
+        onPointerLeave={active ? () => setSnap(null) : undefined}
+        onClick={active ? handleClick : undefined}
+      >
+        {children}
+      </group>
+
+      {measurements.map((measurement) => (
+        <MeasurementShape key={measurement.id} measurement={measurement} unitSystem={unitSystem} unit={settings.displayUnit} />
+      ))}
+
+      {preview.length > 1 && (
+        <Line points={preview} color={LINE_COLOR} lineWidth={1} transparent opacity={0.6} depthTest={false} />
+      )}
+      {pending.map((point, index) => (
+        <Marker key={index} position={point} />
+      ))}
+      {snap && <Marker position={snap.point} color={SNAP_COLORS[snap.kind]} />}
+    </>
+  );
+};
@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useState } from "react";
+import { Box, ChevronDown, ChevronRight, FolderOpen, Loader2, Search, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useModelLibrary } from "@/hooks/use-model-library";
+import { useToast } from "@/hooks/use-toast";
+import { modelLibrary, type LibraryModel, type LibraryVersion } from "@/services/modelLibrary";
+
+interface ModelLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenVersion: (model: LibraryModel, version: LibraryVersion) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+// Searches the entry's name and tags
+const matches = (model: LibraryModel, query: string) =>
+  model.name.toLowerCase().includes(query) || model.tags.some((tag) => tag.toLowerCase().includes(query));
+
+export const ModelLibraryDialog = ({ open, onOpenChange, onOpenVersion }: ModelLibraryDialogProps) => {
+  const { models, loading, error, deleteModel } = useModelLibrary();
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<LibraryVersion[]>([]);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!expandedId) return;
+    let cancelled = false;
+    modelLibrary.listVersions(expandedId).then((list) => {
+      if (!cancelled) setVersions(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [expandedId, models]);
+
+  const filtered = useMemo(() => {
+    const normalized = query.trim().toLowerCase();
+    return normalized ? models.filter((model) => matches(model, normalized)) : models;
+  }, [models, query]);
+
+  const openVersion = async (model: LibraryModel, versionId: string) => {
+    const version = await modelLibrary.getVersion(versionId);
+    if (!version) {
+      toast({ title: "Version not found", variant: "destructive" });
+      return;
+    }
+    onOpenVersion(model, version);
+    onOpenChange(false);
+  };
+
+  const remove = async (model: LibraryModel) => {
+    if (confirmDeleteId !== model.id) {
+      setConfirmDeleteId(model.id);
+      return;
+    }
+    setConfirmDeleteId(null);
+    await deleteModel(model.id);
+    toast({ title: `Deleted ${model.name}` });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Model library</DialogTitle>
+          <DialogDescription>
+            Models saved in this browser. Opening one reuses its parsed geometry.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            className="pl-9"
+            placeholder="Search by name or tag"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+
+        <ScrollArea className="h-96">
+          <div className="space-y-2 pr-3">
+            {loading && models.length === 0 && (
+              <p className="flex items-center text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Loading library...
+              </p>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {!loading && !error && filtered.length === 0 && (
+              <p className="text-sm text-gray-500">
+                {models.length === 0 ? 'No saved models yet. Use Save to add the open model.' : 'No models match your search.'}
+              </p>
+            )}
+            {filtered.map((model) => (
+              <div key={model.id} className="rounded-lg border p-2">
+                <div className="flex items-center gap-3">
+                  {model.thumbnail ? (
+                    <img src={model.thumbnail} alt="" className="w-16 h-12 rounded border object-cover shrink-0" />
+                  ) : (
+                    <div className="w-16 h-12 rounded border bg-gray-50 flex items-center justify-center shrink-0">
+                      <Box className="w-6 h-6 text-gray-300" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{model.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {model.versionCount} version{model.versionCount === 1 ? '' : 's'} · updated {formatDate(model.updatedAt)}
+                    </p>
+                    {model.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {model.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" className="h-7 text-xs" onClick={() => openVersion(model, model.latestVersionId)}>
+                      <FolderOpen className="w-3 h-3 mr-1" />
+                      Open
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      title="Version history"
+                      onClick={() => setExpandedId(expandedId === model.id ? null : model.id)}
+                    >
+                      {expandedId === model.id ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                    </Button>
+                    <Button
+                      variant={confirmDeleteId === model.id ? 'destructive' : 'ghost'}
+                      size="sm"
+                      className="h-7 text-xs"
+                      title="Delete from library"
+                      onClick={() => remove(model)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      {confirmDeleteId === model.id && <span className="ml-1">Delete?</span>}
+                    </Button>
+                  </div>
+                </div>
+
+                {expandedId === model.id && (
+                  <div className="mt-2 border-t pt-2 space-y-1">
+                    {versions.filter((version) => version.modelId === model.id).map((version) => (
+                      <div key={version.id} className="flex items-center gap-2 text-xs">
+                        <Badge variant="outline" className="text-xs">v{version.version}</Badge>
+                        <span className="flex-1 truncate" title={version.fileName}>{version.fileName}</span>
+                        <span className="text-gray-500">
+                          {formatSize(version.size)} · {version.objectCount} objects · {version.uploadedBy}, {formatDate(version.uploadedAt)}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-6 text-xs"
+                          onClick={() => openVersion(model, version.id)}
+                        >
+                          Open
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
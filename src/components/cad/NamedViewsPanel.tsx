@@ -0,0 +1,137 @@
+import { useMemo, useState } from "react";
+import { Bookmark, BookmarkPlus, Camera, Layers, Scissors, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { isObjectVisible, useCadScene } from "@/hooks/use-cad-scene";
+import { useNamedViews, type NamedView } from "@/hooks/use-named-views";
+import { currentSection, sectionActions } from "@/hooks/use-section";
+import { computeBounds } from "@/lib/geometry";
+import { emptySection, isSectionActive } from "@/lib/section";
+import { controlsFromView, type ViewerControls } from "@/lib/viewer-controls";
+
+interface NamedViewsPanelProps {
+  // Views are kept per model, under its file name
+  modelKey: string;
+  controls: ViewerControls;
+  onControlsChange: (controls: ViewerControls) => void;
+}
+
+export const NamedViewsPanel = ({ modelKey, controls, onControlsChange }: NamedViewsPanelProps) => {
+  const { views, saveView, renameView, deleteView } = useNamedViews(modelKey);
+  const { views: fileViews, objects, layers, visibleLayers, hiddenLayers, setHiddenLayers } = useCadScene();
+  const [name, setName] = useState('');
+
+  // The viewer frames what is shown, and file views are converted against the same bounds
+  const bounds = useMemo(
+    () => computeBounds(objects.filter((object) => isObjectVisible(object, layers, visibleLayers))),
+    [objects, layers, visibleLayers]
+  );
+
+  const save = () => {
+    const section = currentSection();
+    saveView(modelKey, {
+      name: name.trim() || `View ${views.length + 1}`,
+      // Auto-rotate would move the camera away from the saved position at once
+      controls: { ...controls, autoRotate: false },
+      section: isSectionActive(section) ? section : null,
+      hiddenLayers
+    });
+    setName('');
+  };
+
+  const show = (view: NamedView) => {
+    if (view.hiddenLayers) setHiddenLayers(view.hiddenLayers);
+    onControlsChange(view.controls);
+    sectionActions.restore(view.section ?? emptySection);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center">
+          <Bookmark className="w-4 h-4 mr-2" />
+          Named Views
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {fileViews.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-gray-500">From the file</p>
+            {fileViews.map((view, index) => (
+              <div key={`${view.source}-${index}`} className="flex items-center gap-2">
+                <Camera className="w-3 h-3 shrink-0 text-gray-400" />
+                <span className="flex-1 truncate text-sm" title={view.name}>
+                  {view.name}
+                  {view.source === 'viewport' && <span className="text-xs text-gray-500"> · viewport</span>}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs shrink-0"
+                  disabled={bounds.isEmpty()}
+                  onClick={() => onControlsChange(controlsFromView(view, bounds))}
+                >
+                  Show
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs font-medium text-gray-500 pt-1">Bookmarks</p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            placeholder={`View ${views.length + 1}`}
+            className="h-8 text-sm"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+          />
+          <Button size="sm" className="h-8 shrink-0" title="Save the current view, visible layers and section" onClick={save}>
+            <BookmarkPlus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {views.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved views yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {views.map((view) => (
+              <div key={view.id} className="flex items-center gap-2">
+                <Input
+                  value={view.name}
+                  className="h-7 text-xs"
+                  onChange={(e) => renameView(modelKey, view.id, e.target.value)}
+                />
+                {view.hiddenLayers && view.hiddenLayers.length > 0 && (
+                  <Layers className="w-3 h-3 shrink-0 text-gray-400" aria-label="Saved with hidden layers" />
+                )}
+                {view.section && (
+                  <Scissors className="w-3 h-3 shrink-0 text-gray-400" aria-label="Saved with a section" />
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs shrink-0"
+                  onClick={() => show(view)}
+                >
+                  Show
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  title="Delete view"
+                  onClick={() => deleteView(modelKey, view.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,195 @@
+import { useMemo, type ReactNode } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { useCadScene, objectLabel } from "@/hooks/use-cad-scene";
+import { useDensities } from "@/hooks/use-densities";
+import { useViewerSettings } from "@/hooks/use-viewer-settings";
+import { computeBounds } from "@/lib/geometry";
+import { combineMassProperties, objectDensity } from "@/lib/mass";
+import { resolveMaterialIndex } from "@/lib/materials";
+import {
+  convertLength,
+  FALLBACK_METERS_PER_UNIT,
+  formatLength,
+  lengthUnitAbbreviation,
+  metersPerUnit
+} from "@/lib/units";
+
+const formatNumber = (value: number) => value.toFixed(3);
+
+const Row = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-gray-600 shrink-0">{label}:</span>
+    <span className="font-medium text-right break-all">{children}</span>
+  </div>
+);
+
+export const ObjectInspector = () => {
+  const { objects, blocks, layers, materials, materialOverrides, selectedIds, unitSystem, clearSelection } = useCadScene();
+  const { densities } = useDensities();
+  const { settings: { displayUnit } } = useViewerSettings();
+  const toDisplay = (value: number) => formatNumber(convertLength(value, unitSystem, displayUnit));
+
+  const selected = useMemo(
+    () => objects.filter((object) => selectedIds.includes(object.id)),
+    [objects, selectedIds]
+  );
+  const bounds = useMemo(() => computeBounds(selected), [selected]);
+  const scale = metersPerUnit(unitSystem) ?? FALLBACK_METERS_PER_UNIT;
+  const mass = useMemo(
+    () => combineMassProperties(
+      selected,
+      blocks,
+      scale,
+      (object) => objectDensity(object, layers, materials, materialOverrides, densities)
+    ),
+    [selected, blocks, scale, layers, materials, materialOverrides, densities]
+  );
+
+  if (selected.length === 0) {
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Inspector</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-500">
+            Click an object to inspect it. Shift-click to select several.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const object = selected.length === 1 ? selected[0] : null;
+  const layer = object ? layers.find((l) => l.index === object.attributes.layer) : undefined;
+  const userStrings = Object.entries(object?.attributes.userStrings ?? {});
+  const materialIndex = object
+    ? materialOverrides[object.id] ?? resolveMaterialIndex(object.attributes, layers)
+    : -1;
+  const materialName = materials.find((material) => material.index === materialIndex)?.name ?? 'Default';
+  const density = object ? objectDensity(object, layers, materials, materialOverrides, densities) : null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Inspector</CardTitle>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={clearSelection}>
+            Clear
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {object ? (
+          <>
+            <Row label="Name">{objectLabel(object)}</Row>
+            <Row label="Id">
+              <span className="font-mono text-xs">{object.id}</span>
+            </Row>
+            <Row label="Type">
+              <Badge variant="secondary">{object.objectType}</Badge>
+            </Row>
+            {object.geometry.text && <Row label="Text">{object.geometry.text}</Row>}
+            {object.instance && <Row label="Block">{object.instance.blockName}</Row>}
+            <Row label="Layer">{layer ? layer.fullPath : '—'}</Row>
+            <Row label="Material">
+              {materialName}
+              {object.id in materialOverrides ? (
+                <span className="text-gray-500"> (assigned)</span>
+              ) : object.attributes.materialSource && object.attributes.materialSource !== 'object' && (
+                <span className="text-gray-500"> (by {object.attributes.materialSource})</span>
+              )}
+            </Row>
+          </>
+        ) : (
+          <Row label="Selected">{selected.length} objects</Row>
+        )}
+
+        <Separator />
+
+        <div className="space-y-1">
+          <span className="text-gray-600">Bounding box ({lengthUnitAbbreviation(displayUnit, unitSystem)})</span>
+          {(['x', 'y', 'z'] as const).map((axis) => (
+            <div key={axis} className="flex justify-between font-mono text-xs">
+              <span>{axis.toUpperCase()}</span>
+              <span>
+                {toDisplay(bounds.min[axis])} … {toDisplay(bounds.max[axis])}
+                <span className="text-gray-500"> ({toDisplay(bounds.max[axis] - bounds.min[axis])})</span>
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-1">
+          <span className="text-gray-600">Physical properties</span>
+          {mass.skippedCount === selected.length ? (
+            <p className="text-xs text-gray-500">No surfaces to measure.</p>
+          ) : (
+            <>
+              <div className="flex justify-between text-xs">
+                <span>Area</span>
+                <span className="font-mono">{(mass.area * scale ** 2).toFixed(3)} m²</span>
+              </div>
+              <div className="flex justify-between text-xs">
+                <span>Volume</span>
+                <span className="font-mono">{(mass.volume * scale ** 3 * 1000).toFixed(2)} L</span>
+              </div>
+              {mass.centroid && (
+                <div className="flex justify-between text-xs">
+                  <span>Centroid</span>
+                  <span className="font-mono">{mass.centroid.map((value) => formatLength(value, unitSystem, displayUnit)).join(', ')}</span>
+                </div>
+              )}
+              {density !== null && (
+                <div className="flex justify-between text-xs">
+                  <span>Density</span>
+                  <span className="font-mono">{density} kg/m³</span>
+                </div>
+              )}
+              <div className="flex justify-between text-xs">
+                <span>Mass</span>
+                {mass.mass !== null ? (
+                  <span className="font-mono font-medium">{mass.mass.toFixed(2)} kg</span>
+                ) : (
+                  <span className="text-gray-500">Set a density for its layer or material</span>
+                )}
+              </div>
+              {mass.openCount > 0 && (
+                <p className="flex items-start text-xs text-orange-600">
+                  <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+                  {object
+                    ? 'The mesh is not closed; its volume and mass are unreliable.'
+                    : `${mass.openCount} mesh${mass.openCount > 1 ? 'es are' : ' is'} not closed; volume and mass are unreliable.`}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+        {!metersPerUnit(unitSystem) && (
+          <p className="text-xs text-gray-500">The model has no units; millimetres are assumed.</p>
+        )}
+
+        {object && userStrings.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-1">
+              <span className="text-gray-600">User text</span>
+              {userStrings.map(([key, value]) => (
+                <div key={key} className="flex justify-between gap-2 text-xs">
+                  <span className="text-gray-600">{key}</span>
+                  <span className="font-medium text-right break-all">{value}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,120 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useCadScene, objectLabel, isObjectVisible } from "@/hooks/use-cad-scene";
+import { cn } from "@/lib/utils";
+import type { RhinoObject } from "@/services/rhinoCompute";
+
+interface ObjectGroup {
+  key: string;
+  label: string;
+  objects: RhinoObject[];
+}
+
+// Every object in the model, grouped by layer, followed by the instances of each block
+export const ObjectTree = () => {
+  const { objects, blocks, layers, visibleLayers, selectedIds, selectObject } = useCadScene();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const groups = useMemo(() => {
+    const layerByIndex = new Map(layers.map((layer) => [layer.index, layer]));
+    const byLayer = new Map<string, RhinoObject[]>();
+    for (const object of objects) {
+      const layer = layerByIndex.get(object.attributes.layer);
+      const key = layer ? layer.fullPath : 'Default';
+      const group = byLayer.get(key) ?? [];
+      group.push(object);
+      byLayer.set(key, group);
+    }
+    return [...byLayer.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, group]): ObjectGroup => ({ key, label: key, objects: group }));
+  }, [objects, layers]);
+
+  const blockGroups = useMemo(() => {
+    const byBlock = new Map<string, RhinoObject[]>();
+    for (const object of objects) {
+      if (!object.instance) continue;
+      const group = byBlock.get(object.instance.blockId) ?? [];
+      group.push(object);
+      byBlock.set(object.instance.blockId, group);
+    }
+    return blocks
+      .filter((block) => byBlock.has(block.id))
+      .map((block): ObjectGroup => ({
+        key: `block:${block.id}`,
+        label: block.name || 'Unnamed block',
+        objects: byBlock.get(block.id)
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [objects, blocks]);
+
+  const toggleGroup = (key: string) => {
+    setCollapsed((previous) => {
+      const next = new Set(previous);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderGroup = ({ key, label, objects: group }: ObjectGroup) => (
+    <div key={key}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-full justify-start px-1 text-xs font-medium"
+        onClick={() => toggleGroup(key)}
+      >
+        {collapsed.has(key) ? <ChevronRight className="w-3 h-3 mr-1" /> : <ChevronDown className="w-3 h-3 mr-1" />}
+        <span className="truncate">{label}</span>
+        <span className="ml-auto text-gray-500">{group.length}</span>
+      </Button>
+      {!collapsed.has(key) && group.map((object) => (
+        <button
+          key={object.id}
+          type="button"
+          className={cn(
+            "w-full text-left text-xs pl-6 pr-1 py-1 rounded truncate hover:bg-gray-100",
+            selectedIds.includes(object.id) && "bg-primary/10 text-primary font-medium",
+            !isObjectVisible(object, layers, visibleLayers) && "text-gray-400"
+          )}
+          onClick={(event) => selectObject(object.id, event.shiftKey)}
+        >
+          {objectLabel(object)}
+          <span className="text-gray-400"> · {object.instance ? 'Block instance' : object.objectType}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Objects ({objects.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {objects.length === 0 ? (
+          <p className="text-sm text-gray-500">No objects loaded</p>
+        ) : (
+          <ScrollArea className="h-64">
+            <div className="space-y-1 pr-3">
+              {groups.map(renderGroup)}
+              {blockGroups.length > 0 && (
+                <>
+                  <p className="pt-2 px-1 text-xs font-medium text-gray-500">Blocks</p>
+                  {blockGroups.map(renderGroup)}
+                </>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ViewerSnapshot } from "@/components/cad/CADViewer";
+import { useCadScene } from "@/hooks/use-cad-scene";
+import { useModelLibrary } from "@/hooks/use-model-library";
+import { useToast } from "@/hooks/use-toast";
+import type { LibraryModel, LibraryVersion } from "@/services/modelLibrary";
+
+interface SaveModelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  file: File;
+  // Library entry the open file came from, offered as the default target
+  modelId?: string;
+  snapshot?: ViewerSnapshot;
+  onSaved: (model: LibraryModel, version: LibraryVersion) => void;
+}
+
+const NEW_ENTRY = 'new';
+
+const parseTags = (value: string) =>
+  [...new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean))];
+
+const SaveModelForm = ({ onClose, file, modelId, snapshot, onSaved }: Omit<SaveModelDialogProps, 'open' | 'onOpenChange'> & {
+  onClose: () => void;
+}) => {
+  const { models, saveModel } = useModelLibrary();
+  const { objects, blocks, layers, materials, unitSystem, tolerance, views, skipped, loaded, meshingKey } = useCadScene();
+  const { toast } = useToast();
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  // Uploads of a part already in the library default to a new version of it
+  const [existing] = useState(() =>
+    models.find((model) => model.id === modelId)
+      ?? models.find((model) => model.name.toLowerCase() === baseName.toLowerCase())
+  );
+  const [target, setTarget] = useState(existing?.id ?? NEW_ENTRY);
+  const [name, setName] = useState(existing?.name ?? baseName);
+  const [tags, setTags] = useState(existing?.tags.join(', ') ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const selectTarget = (value: string) => {
+    setTarget(value);
+    const existing = models.find((model) => model.id === value);
+    if (existing) {
+      setName(existing.name);
+      setTags(existing.tags.join(', '));
+    }
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const { model, version } = await saveModel({
+        file,
+        name: name.trim() || baseName,
+        tags: parseTags(tags),
+        modelId: target === NEW_ENTRY ? undefined : target,
+        thumbnail: snapshot?.(),
+        // A scene still streaming in or being re-meshed would reopen incomplete or stale every time
+        cache: loaded && objects.length > 0
+          ? { scene: { objects, blocks, layers, materials, unitSystem, tolerance, views, skipped }, meshingKey }
+          : undefined
+      });
+      toast({ title: `Saved ${model.name}`, description: `Version ${version.version} stored in the model library` });
+      onSaved(model, version);
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Save to library</DialogTitle>
+        <DialogDescription>
+          {loaded
+            ? 'The file and its parsed geometry are stored in this browser, so it reopens without parsing.'
+            : 'The model is still loading, so only the file is stored; it will be parsed again when reopened.'}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Library entry</Label>
+          <Select value={target} onValueChange={selectTarget}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_ENTRY}>New entry</SelectItem>
+              {models.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.name} (version {model.versionCount + 1})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="modelName">Name</Label>
+          <Input id="modelName" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="modelTags">Tags</Label>
+          <Input
+            id="modelTags"
+            placeholder="e.g. chassis, supplier-x"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>Cancel</Button>
+        <Button onClick={save} disabled={saving}>
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+// Saves the open file with its parsed scene, either as a new library entry
+// or as the next version of an existing one
+export const SaveModelDialog = ({ open, onOpenChange, ...formProps }: SaveModelDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-md">
+      {/* Mounted with the dialog content, so the form starts over every time it opens */}
+      <SaveModelForm onClose={() => onOpenChange(false)} {...formProps} />
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,195 @@
+import { useMemo } from "react";
+import { Box, FlipVertical2, Scissors, Trash2 } from "lucide-react";
+import { Vector3 } from "three";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { isObjectVisible, useCadScene } from "@/hooks/use-cad-scene";
+import { useSection } from "@/hooks/use-section";
+import { useViewerSettings } from "@/hooks/use-viewer-settings";
+import { computeBounds } from "@/lib/geometry";
+import type { Point3 } from "@/lib/measure";
+import {
+  AXIS_NORMALS,
+  axisPlane,
+  boxAroundModel,
+  MAX_SECTION_PLANES,
+  type SectionAxis,
+  type SectionPlane
+} from "@/lib/section";
+import { formatLength } from "@/lib/units";
+
+const AXES: SectionAxis[] = ['x', 'y', 'z'];
+
+const dot = (a: Point3, b: Point3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+// The axis a plane is aligned with, if any, for its label
+const alignedAxis = (normal: Point3) =>
+  AXES.find((axis) => Math.abs(Math.abs(dot(normal, AXIS_NORMALS[axis])) - 1) < 1e-6);
+
+export const SectionPanel = () => {
+  const {
+    planes,
+    box,
+    capped,
+    showHandles,
+    addPlane,
+    updatePlane,
+    flipPlane,
+    removePlane,
+    setBox,
+    updateBox,
+    setCapped,
+    setShowHandles
+  } = useSection();
+  const { objects, selectedIds, layers, visibleLayers, unitSystem } = useCadScene();
+  const { settings } = useViewerSettings();
+  const bounds = useMemo(() => computeBounds(objects), [objects]);
+  const hasModel = !bounds.isEmpty();
+
+  // How far along its normal a plane can travel and still cut the model
+  const offsetRange = (plane: SectionPlane): [number, number] => {
+    if (!hasModel) return [0, 1];
+    const normal = new Vector3(...plane.normal).normalize();
+    const corners = [0, 1, 2, 3, 4, 5, 6, 7].map((i) => new Vector3(
+      i & 1 ? bounds.max.x : bounds.min.x,
+      i & 2 ? bounds.max.y : bounds.min.y,
+      i & 4 ? bounds.max.z : bounds.min.z
+    ).dot(normal));
+    return [Math.min(...corners), Math.max(...corners)];
+  };
+
+  const moveAlongNormal = (plane: SectionPlane, offset: number) => {
+    const normal = new Vector3(...plane.normal).normalize();
+    const origin = new Vector3(...plane.origin);
+    origin.addScaledVector(normal, offset - origin.dot(normal));
+    updatePlane(plane.id, { origin: [origin.x, origin.y, origin.z] });
+  };
+
+  const fitBoxToSelection = () => {
+    const selected = objects.filter((object) => selectedIds.includes(object.id));
+    const visible = objects.filter((object) => isObjectVisible(object, layers, visibleLayers));
+    setBox(boxAroundModel(computeBounds(selected.length > 0 ? selected : visible)));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center">
+          <Scissors className="w-4 h-4 mr-2" />
+          Section
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-4 gap-2">
+          {AXES.map((axis) => (
+            <Button
+              key={axis}
+              variant="outline"
+              size="sm"
+              title={`Add a plane across the ${axis.toUpperCase()} axis`}
+              disabled={!hasModel || planes.length >= MAX_SECTION_PLANES}
+              onClick={() => addPlane(axisPlane(axis, bounds))}
+            >
+              {axis.toUpperCase()}
+            </Button>
+          ))}
+          <Button
+            variant={box ? 'default' : 'outline'}
+            size="sm"
+            title={box ? 'Remove the section box' : 'Add a section box around the selection or the model'}
+            disabled={!hasModel}
+            onClick={() => (box ? setBox(null) : fitBoxToSelection())}
+          >
+            <Box className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {planes.length === 0 && !box && (
+          <p className="text-sm text-gray-500">Add up to {MAX_SECTION_PLANES} planes or a box to cut the model.</p>
+        )}
+
+        {planes.map((plane, index) => {
+          const axis = alignedAxis(plane.normal);
+          const [min, max] = offsetRange(plane);
+          const offset = new Vector3(...plane.origin).dot(new Vector3(...plane.normal).normalize());
+          return (
+            <div key={plane.id} className="space-y-2 rounded border p-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={plane.enabled}
+                  onCheckedChange={(enabled) => updatePlane(plane.id, { enabled })}
+                />
+                <span className="flex-1 text-sm">
+                  Plane {index + 1}
+                  <span className="text-xs text-gray-500">
+                    {' · '}{axis ? axis.toUpperCase() : 'Free'} at {formatLength(offset, unitSystem, settings.displayUnit)}
+                  </span>
+                </span>
+                {AXES.map((a) => (
+                  <Button
+                    key={a}
+                    variant={axis === a ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className="h-7 w-7 p-0 text-xs"
+                    title={`Align with the ${a.toUpperCase()} axis`}
+                    onClick={() => updatePlane(plane.id, { normal: AXIS_NORMALS[a] })}
+                  >
+                    {a.toUpperCase()}
+                  </Button>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Flip the kept side"
+                  onClick={() => flipPlane(plane.id)}
+                >
+                  <FlipVertical2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Delete plane"
+                  onClick={() => removePlane(plane.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <Slider
+                min={min}
+                max={max}
+                step={(max - min) / 500 || 0.001}
+                value={[Math.min(max, Math.max(min, offset))]}
+                disabled={!plane.enabled}
+                onValueChange={([value]) => moveAlongNormal(plane, value)}
+              />
+            </div>
+          );
+        })}
+
+        {box && (
+          <div className="flex items-center gap-2 rounded border p-2">
+            <Switch checked={box.enabled} onCheckedChange={(enabled) => updateBox({ enabled })} />
+            <span className="flex-1 text-sm">Section box</span>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={fitBoxToSelection}>
+              {selectedIds.length > 0 ? 'Fit selection' : 'Fit model'}
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="sectionCaps" className="text-sm">Cap cut faces</Label>
+          <Switch id="sectionCaps" checked={capped} onCheckedChange={setCapped} />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="sectionHandles" className="text-sm">Show handles</Label>
+          <Switch id="sectionHandles" checked={showHandles} onCheckedChange={setShowHandles} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useRef, type ReactNode } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Edges, PivotControls } from "@react-three/drei";
+import {
+  AlwaysStencilFunc,
+  BackSide,
+  Box3,
+  DecrementWrapStencilOp,
+  DoubleSide,
+  FrontSide,
+  Group,
+  IncrementWrapStencilOp,
+  InstancedMesh,
+  Matrix4,
+  Mesh,
+  MeshBasicMaterial,
+  MeshStandardMaterial,
+  NotEqualStencilFunc,
+  Plane,
+  PlaneGeometry,
+  Quaternion,
+  ReplaceStencilOp,
+  Vector3,
+  type Material,
+  type Object3D
+} from "three";
+import { useSection } from "@/hooks/use-section";
+import { toPoint3, type Point3 } from "@/lib/measure";
+import { clippingPlanes, isSectionActive, MAX_SECTION_PLANES, type SectionPlane } from "@/lib/section";
+
+// Box planes come on top of the free planes
+const MAX_CLIPPING_PLANES = MAX_SECTION_PLANES + 6;
+
+const CAP_COLOR = '#64748b';
+const GIZMO_SIZE = 70;
+const Z_AXIS = new Vector3(0, 0, 1);
+
+// Model meshes carry the ids of the objects they draw; outlines and placeholders do not
+const isModelMesh = (object: Object3D): object is Mesh =>
+  (object as Mesh).isMesh && (object.userData.objectId !== undefined || object.userData.objectIds !== undefined);
+
+const materialsOf = (object: Object3D): Material[] => {
+  const material = (object as Mesh).material;
+  return !material ? [] : Array.isArray(material) ? material : [material];
+};
+
+// A copy of `source` that only writes the stencil buffer, counting how often each pixel
+// is covered by back faces minus front faces behind the cut
+function stencilCopy(source: Mesh, plane: Plane, side: typeof FrontSide | typeof BackSide, renderOrder: number): Mesh {
+  const material = new MeshBasicMaterial({
+    side,
+    clippingPlanes: [plane],
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFunc: AlwaysStencilFunc
+  });
+  const operation = side === BackSide ? IncrementWrapStencilOp : DecrementWrapStencilOp;
+  material.stencilFail = operation;
+  material.stencilZFail = operation;
+  material.stencilZPass = operation;
+
+  const copy = source instanceof InstancedMesh
+    ? new InstancedMesh(source.geometry, material, source.count)
+    : new Mesh(source.geometry, material);
+  if (copy instanceof InstancedMesh && source instanceof InstancedMesh) copy.instanceMatrix = source.instanceMatrix;
+  copy.matrixAutoUpdate = false;
+  copy.matrixWorldAutoUpdate = false;
+  copy.renderOrder = renderOrder;
+  copy.userData.source = source;
+  return copy;
+}
+
+// Fills the cut faces with the stencil technique: pixels where a plane passes through the
+// inside of a closed part are covered by an odd number of back faces and get a cap drawn.
+function buildCaps(meshes: Mesh[], planes: Plane[], capSize: number): Group {
+  const group = new Group();
+  planes.forEach((plane, index) => {
+    for (const mesh of meshes) {
+      group.add(stencilCopy(mesh, plane, BackSide, index + 1), stencilCopy(mesh, plane, FrontSide, index + 1));
+    }
+
+    const cap = new Mesh(
+      new PlaneGeometry(capSize, capSize),
+      new MeshStandardMaterial({
+        color: CAP_COLOR,
+        metalness: 0.1,
+        roughness: 0.75,
+        side: DoubleSide,
+        clippingPlanes: planes.filter((other) => other !== plane),
+        stencilWrite: true,
+        stencilRef: 0,
+        stencilFunc: NotEqualStencilFunc,
+        stencilFail: ReplaceStencilOp,
+        stencilZFail: ReplaceStencilOp,
+        stencilZPass: ReplaceStencilOp
+      })
+    );
+    cap.renderOrder = index + 1.1;
+    cap.userData.plane = plane;
+    // The next plane starts from a clean stencil
+    cap.onAfterRender = (renderer) => renderer.clearStencil();
+    group.add(cap);
+  });
+  return group;
+}
+
+function disposeCaps(group: Group) {
+  group.traverse((object) => {
+    materialsOf(object).forEach((material) => material.dispose());
+    // Stencil copies share the model's geometry, only cap planes own theirs
+    if (object.userData.plane) (object as Mesh).geometry.dispose();
+  });
+}
+
+// Cuts its children with the current section planes and box, and caps the cut faces
+export const SectionClip = ({ bounds, children }: { bounds: Box3; children: ReactNode }) => {
+  const section = useSection();
+  const gl = useThree((state) => state.gl);
+  const raycaster = useThree((state) => state.raycaster);
+  const groupRef = useRef<Group>(null);
+  const capsRef = useRef<{ group: Group; meshes: Mesh[]; planes: Plane[] } | null>(null);
+  const capsHolder = useMemo(() => new Group(), []);
+
+  // Plane objects are reused so that dragging a gizmo does not recompile every material
+  const pool = useMemo(() => Array.from({ length: MAX_CLIPPING_PLANES }, () => new Plane()), []);
+  const values = useMemo(() => clippingPlanes(section), [section]);
+  const planes = useMemo(() => pool.slice(0, values.length), [pool, values.length]);
+
+  const active = isSectionActive(section);
+  const capSize = bounds.isEmpty() ? 10 : bounds.getSize(new Vector3()).length() * 2;
+
+  useEffect(() => {
+    gl.localClippingEnabled = true;
+  }, [gl]);
+
+  // Every hit along the ray is needed to skip the ones on parts cut away
+  useEffect(() => {
+    if (!active) return;
+    const firstHitOnly = (raycaster as { firstHitOnly?: boolean }).firstHitOnly;
+    (raycaster as { firstHitOnly?: boolean }).firstHitOnly = false;
+    return () => {
+      (raycaster as { firstHitOnly?: boolean }).firstHitOnly = firstHitOnly;
+    };
+  }, [active, raycaster]);
+
+  useEffect(() => () => {
+    if (capsRef.current) disposeCaps(capsRef.current.group);
+  }, []);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    values.forEach((plane, index) => pool[index].copy(plane));
+
+    const meshes: Mesh[] = [];
+    const clipping = planes.length > 0 ? planes : null;
+    group.traverse((object) => {
+      for (const material of materialsOf(object)) {
+        if (material.clippingPlanes !== clipping) material.clippingPlanes = clipping;
+      }
+      if (isModelMesh(object)) meshes.push(object);
+    });
+
+    const wanted = section.capped && planes.length > 0;
+    const built = capsRef.current;
+    const stale = !built || built.planes !== planes ||
+      built.meshes.length !== meshes.length || built.meshes.some((mesh, i) => mesh !== meshes[i]);
+    if (built && (!wanted || stale)) {
+      capsHolder.remove(built.group);
+      disposeCaps(built.group);
+      capsRef.current = null;
+    }
+    if (wanted && !capsRef.current) {
+      const caps = buildCaps(meshes, planes, capSize);
+      capsHolder.add(caps);
+      capsRef.current = { group: caps, meshes, planes };
+    }
+
+    const caps = capsRef.current?.group;
+    caps?.children.forEach((object) => {
+      const source: Mesh | undefined = object.userData.source;
+      if (source) {
+        object.visible = source.visible;
+        object.matrixWorld.copy(source.matrixWorld);
+        return;
+      }
+      const plane: Plane = object.userData.plane;
+      plane.coplanarPoint(object.position);
+      object.lookAt(object.position.clone().sub(plane.normal));
+    });
+  });
+
+  return (
+    <>
+      <group ref={groupRef}>{children}</group>
+      <primitive object={capsHolder} />
+    </>
+  );
+};
+
+const planeMatrix = (plane: SectionPlane) =>
+  new Matrix4().compose(
+    new Vector3(...plane.origin),
+    new Quaternion().setFromUnitVectors(Z_AXIS, new Vector3(...plane.normal).normalize()),
+    new Vector3(1, 1, 1)
+  );
+
+// A plane handle: the arrow moves the cut, the arcs tilt it
+const PlaneGizmo = ({ plane, size }: { plane: SectionPlane; size: number }) => {
+  const { updatePlane } = useSection();
+  const matrix = useMemo(() => planeMatrix(plane), [plane]);
+
+  return (
+    <PivotControls
+      matrix={matrix}
+      autoTransform={false}
+      fixed
+      scale={GIZMO_SIZE}
+      depthTest={false}
+      disableSliders
+      disableScaling
+      onDrag={(local) => {
+        const position = new Vector3();
+        const rotation = new Quaternion();
+        local.decompose(position, rotation, new Vector3());
+        updatePlane(plane.id, { origin: toPoint3(position), normal: toPoint3(Z_AXIS.clone().applyQuaternion(rotation)) });
+      }}
+    >
+      <mesh>
+        <planeGeometry args={[size, size]} />
+        <meshBasicMaterial color="#0ea5e9" transparent opacity={0.12} side={DoubleSide} depthWrite={false} />
+        <Edges color="#0ea5e9" />
+      </mesh>
+    </PivotControls>
+  );
+};
+
+// One arrow per face of the section box, each moving that face along its axis
+const BoxGizmo = ({ min, max }: { min: Point3; max: Point3 }) => {
+  const { updateBox } = useSection();
+  const center: Point3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  const size: Point3 = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+  const minGap = Math.max(...size) * 1e-3;
+
+  return (
+    <>
+      <mesh position={center}>
+        <boxGeometry args={size} />
+        <meshBasicMaterial visible={false} />
+        <Edges color="#0ea5e9" />
+      </mesh>
+      {[0, 1, 2].flatMap((axis) => (['min', 'max'] as const).map((side) => {
+        const position: Point3 = [...center];
+        position[axis] = side === 'min' ? min[axis] : max[axis];
+        return (
+          <PivotControls
+            key={`${axis}-${side}`}
+            matrix={new Matrix4().makeTranslation(...position)}
+            autoTransform={false}
+            fixed
+            scale={GIZMO_SIZE * 0.7}
+            depthTest={false}
+            activeAxes={[axis === 0, axis === 1, axis === 2]}
+            disableRotations
+            disableSliders
+            disableScaling
+            onDrag={(local) => {
+              const value = new Vector3().setFromMatrixPosition(local).getComponent(axis);
+              if (side === 'min') {
+                const next: Point3 = [...min];
+                next[axis] = Math.min(value, max[axis] - minGap);
+                updateBox({ min: next });
+              } else {
+                const next: Point3 = [...max];
+                next[axis] = Math.max(value, min[axis] + minGap);
+                updateBox({ max: next });
+              }
+            }}
+          />
+        );
+      }))}
+    </>
+  );
+};
+
+// Draggable handles for the section planes and box
+export const SectionGizmos = ({ bounds }: { bounds: Box3 }) => {
+  const { planes, box, showHandles } = useSection();
+  if (!showHandles) return null;
+
+  const size = bounds.isEmpty() ? 2 : bounds.getSize(new Vector3()).length() * 0.6;
+
+  return (
+    <>
+      {planes.filter((plane) => plane.enabled).map((plane) => (
+        <PlaneGizmo key={plane.id} plane={plane} size={size} />
+      ))}
+      {box?.enabled && <BoxGizmo min={box.min} max={box.max} />}
+    </>
+  );
+};
@@ -5,34 +5,65 @@ import {
   ZoomIn, 
   Palette, 
   Layers, 
-  Eye, 
-  EyeOff,
   Settings,
+  Grid3X3,
+  Box,
+  ScanEye,
+  AlertTriangle,
   Ruler,
-  Grid3X3
+  Shapes,
+  Sun
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { LayerTree } from "@/components/cad/LayerTree";
+import { ObjectInspector } from "@/components/cad/ObjectInspector";
+import { ObjectTree } from "@/components/cad/ObjectTree";
+import { MeasurePanel } from "@/components/cad/MeasurePanel";
+import { DensityPanel } from "@/components/cad/DensityPanel";
+import { NamedViewsPanel } from "@/components/cad/NamedViewsPanel";
+import { SectionPanel } from "@/components/cad/SectionPanel";
+import { MaterialBrowser } from "@/components/cad/MaterialBrowser";
+import {
+  useViewerSettings,
+  BACKGROUND_PRESETS,
+  ENVIRONMENT_PRESETS,
+  MESH_QUALITY_PRESETS,
+  type ColorMode,
+  type EnvironmentPreset,
+  type MeshQuality,
+  type ShadingMode
+} from "@/hooks/use-viewer-settings";
+import { cn } from "@/lib/utils";
+import { DISPLAY_UNITS, metersPerUnit, unitAbbreviation, type LengthUnit } from "@/lib/units";
+import type { ViewerControls } from "@/lib/viewer-controls";
+import { useCadScene } from "@/hooks/use-cad-scene";
+import { namedViewsKey } from "@/hooks/use-named-views";
+import { loaderForFileName } from "@/services/modelLoaders";
 
 interface ToolPanelProps {
   file: File;
-  controls: any;
-  onControlsChange: (controls: any) => void;
+  // Library entry the file is, when it was opened from or saved to the library
+  libraryModelId?: string;
+  controls: ViewerControls;
+  onControlsChange: (controls: ViewerControls) => void;
 }
 
-export const ToolPanel = ({ file, controls, onControlsChange }: ToolPanelProps) => {
+export const ToolPanel = ({ file, libraryModelId, controls, onControlsChange }: ToolPanelProps) => {
   const [activeMode, setActiveMode] = useState<'move' | 'rotate' | 'zoom'>('move');
-  const [showGrid, setShowGrid] = useState(true);
-  const [showWireframe, setShowWireframe] = useState(false);
-  const [layers] = useState([
-    { id: 1, name: 'Main Geometry', visible: true, color: '#747bff' },
-    { id: 2, name: 'Details', visible: true, color: '#ff6b6b' },
-    { id: 3, name: 'Annotations', visible: false, color: '#4ecdc4' }
-  ]);
+  const { settings, updateViewerSettings } = useViewerSettings();
+  // Every committed meshing change re-meshes the model, so edits are only committed when done
+  const [angleDraft, setAngleDraft] = useState<number | null>(null);
+  const [materialsOpen, setMaterialsOpen] = useState(false);
+  const { layers, objects, skipped, hiddenLayers, visibleLayers, toggleLayer, unitSystem, tolerance } = useCadScene();
+  const skippedTypes = Object.entries(skipped);
+  const formatLabel = loaderForFileName(file.name)?.label ?? 'Unknown';
 
   const tools = [
     { id: 'move', icon: Move, label: 'Move' },
@@ -58,8 +89,27 @@ export const ToolPanel = ({ file, controls, onControlsChange }: ToolPanelProps)
           </div>
           <div className="flex justify-between">
             <span className="text-gray-600">Format:</span>
-            <Badge variant="secondary">Rhino 3DM</Badge>
+            <Badge variant="secondary">{formatLabel}</Badge>
           </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Objects:</span>
+            <span>{objects.length}</span>
+          </div>
+          {skippedTypes.length > 0 && (
+            <div className="flex justify-between gap-2">
+              <span className="text-gray-600 flex items-center">
+                <AlertTriangle className="w-3 h-3 mr-1 text-amber-500" />
+                Not shown:
+              </span>
+              <div className="flex flex-wrap justify-end gap-1">
+                {skippedTypes.map(([objectType, count]) => (
+                  <Badge key={objectType} variant="outline" className="text-xs">
+                    {count} × {objectType}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -86,6 +136,15 @@ export const ToolPanel = ({ file, controls, onControlsChange }: ToolPanelProps)
         </CardContent>
       </Card>
 
+      {/* Measure */}
+      <MeasurePanel />
+
+      {/* Section */}
+      <SectionPanel />
+
+      {/* Named Views */}
+      <NamedViewsPanel modelKey={namedViewsKey(file.name, libraryModelId)} controls={controls} onControlsChange={onControlsChange} />
+
       {/* View Controls */}
       <Card>
         <CardHeader className="pb-3">
@@ -97,15 +156,61 @@ export const ToolPanel = ({ file, controls, onControlsChange }: ToolPanelProps)
               <Grid3X3 className="w-4 h-4" />
               <span className="text-sm">Grid</span>
             </div>
-            <Switch checked={showGrid} onCheckedChange={setShowGrid} />
+            <Switch
+              checked={settings.showGrid}
+              onCheckedChange={(showGrid) => updateViewerSettings({ showGrid })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Ruler className="w-4 h-4" />
+              <span className="text-sm">Units</span>
+            </div>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              className="justify-start"
+              value={settings.displayUnit}
+              onValueChange={(displayUnit) => displayUnit && updateViewerSettings({ displayUnit: displayUnit as LengthUnit })}
+            >
+              <ToggleGroupItem value="model" className="text-xs px-2" title="The units the model was drawn in">
+                Model
+              </ToggleGroupItem>
+              {DISPLAY_UNITS.map((unit) => (
+                <ToggleGroupItem key={unit} value={unit} className="text-xs px-2">{unit}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            {objects.length > 0 && (
+              <p className="text-xs text-gray-500">
+                {metersPerUnit(unitSystem)
+                  ? `Drawn in ${unitAbbreviation(unitSystem)}`
+                  : 'The model has no units; millimetres are assumed'}
+                {tolerance !== null && `, tolerance ${Number(tolerance.toPrecision(3))} ${unitAbbreviation(unitSystem)}`}
+              </p>
+            )}
           </div>
           
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
-              <Ruler className="w-4 h-4" />
+              <Box className="w-4 h-4" />
               <span className="text-sm">Wireframe</span>
             </div>
-            <Switch checked={showWireframe} onCheckedChange={setShowWireframe} />
+            <Switch
+              checked={settings.wireframe}
+              onCheckedChange={(wireframe) => updateViewerSettings({ wireframe })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <ScanEye className="w-4 h-4" />
+              <span className="text-sm">X-ray</span>
+            </div>
+            <Switch
+              checked={settings.xray}
+              onCheckedChange={(xray) => updateViewerSettings({ xray })}
+            />
           </div>
 
           <Separator />
@@ -113,10 +218,182 @@ export const ToolPanel = ({ file, controls, onControlsChange }: ToolPanelProps)
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <span className="text-sm">Opacity</span>
-              <span className="text-xs text-gray-500">100%</span>
+              <span className="text-xs text-gray-500">{settings.opacity}%</span>
+            </div>
+            <Slider
+              value={[settings.opacity]}
+              min={5}
+              max={100}
+              step={1}
+              onValueChange={([opacity]) => updateViewerSettings({ opacity })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm">Shading</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={settings.shading}
+              onValueChange={(shading) => shading && updateViewerSettings({ shading: shading as ShadingMode })}
+            >
+              <ToggleGroupItem value="smooth" className="text-xs">Smooth</ToggleGroupItem>
+              <ToggleGroupItem value="flat" className="text-xs">Flat</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm">Colours</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={settings.colorMode}
+              onValueChange={(colorMode) => colorMode && updateViewerSettings({ colorMode: colorMode as ColorMode })}
+            >
+              <ToggleGroupItem value="display" className="text-xs">Display</ToggleGroupItem>
+              <ToggleGroupItem value="materials" className="text-xs">Materials</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm">Background</span>
+            <div className="flex items-center space-x-1">
+              {BACKGROUND_PRESETS.map((preset) => (
+                <button
+                  key={preset.value}
+                  type="button"
+                  title={preset.label}
+                  className={cn(
+                    "w-5 h-5 rounded-full border",
+                    settings.background === preset.value && "ring-2 ring-primary ring-offset-1"
+                  )}
+                  style={{ backgroundColor: preset.value }}
+                  onClick={() => updateViewerSettings({ background: preset.value })}
+                />
+              ))}
+              <input
+                type="color"
+                title="Custom"
+                className="w-5 h-5 p-0 border-0 bg-transparent cursor-pointer"
+                value={settings.background}
+                onChange={(e) => updateViewerSettings({ background: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Sun className="w-4 h-4" />
+              <span className="text-sm">Lighting</span>
+            </div>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              className="justify-start"
+              value={settings.environment}
+              onValueChange={(environment) => environment && updateViewerSettings({ environment: environment as EnvironmentPreset })}
+            >
+              {ENVIRONMENT_PRESETS.map((preset) => (
+                <ToggleGroupItem key={preset.value} value={preset.value} className="text-xs px-2">
+                  {preset.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm">Ambient occlusion</span>
+            <Switch
+              checked={settings.ambientOcclusion}
+              onCheckedChange={(ambientOcclusion) => updateViewerSettings({ ambientOcclusion })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm">Shadows</span>
+            <Switch
+              checked={settings.shadows}
+              onCheckedChange={(shadows) => updateViewerSettings({ shadows })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Meshing */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Meshing</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Shapes className="w-4 h-4" />
+              <span className="text-sm">Use embedded meshes</span>
             </div>
-            <Slider defaultValue={[100]} max={100} step={1} />
+            <Switch
+              checked={settings.useCachedMeshes}
+              onCheckedChange={(useCachedMeshes) => updateViewerSettings({ useCachedMeshes })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm">Quality</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              className="justify-start"
+              value={settings.meshQuality}
+              onValueChange={(meshQuality) => meshQuality && updateViewerSettings({ meshQuality: meshQuality as MeshQuality })}
+            >
+              {Object.entries(MESH_QUALITY_PRESETS).map(([quality, preset]) => (
+                <ToggleGroupItem key={quality} value={quality} className="text-xs">{preset.label}</ToggleGroupItem>
+              ))}
+              <ToggleGroupItem value="custom" className="text-xs">Custom</ToggleGroupItem>
+            </ToggleGroup>
           </div>
+
+          {settings.meshQuality === 'custom' && (
+            <>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Angle tolerance</span>
+                  <span className="text-xs text-gray-500">{angleDraft ?? settings.customAngleTolerance}°</span>
+                </div>
+                <Slider
+                  value={[angleDraft ?? settings.customAngleTolerance]}
+                  min={1}
+                  max={45}
+                  step={1}
+                  onValueChange={([angle]) => setAngleDraft(angle)}
+                  onValueCommit={([customAngleTolerance]) => {
+                    setAngleDraft(null);
+                    updateViewerSettings({ customAngleTolerance });
+                  }}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm">Max edge length</span>
+                <Input
+                  key={settings.customMaxEdgeLength}
+                  type="number"
+                  min={0}
+                  step="any"
+                  className="h-7 w-24 text-xs"
+                  placeholder="No limit"
+                  defaultValue={settings.customMaxEdgeLength || ''}
+                  onBlur={(e) => updateViewerSettings({ customMaxEdgeLength: Math.max(Number(e.target.value) || 0, 0) })}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                />
+              </div>
+            </>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Applies to surfaces, extrusions and SubDs without an embedded render mesh.
+            Trimmed faces can only be shown from embedded meshes.
+          </p>
         </CardContent>
       </Card>
 
@@ -125,41 +402,35 @@ export const ToolPanel = ({ file, controls, onControlsChange }: ToolPanelProps)
         <CardHeader className="pb-3">
           <CardTitle className="text-base">Layers</CardTitle>
         </CardHeader>
-        <CardContent className="space-y-3">
-          {layers.map((layer) => (
-            <div key={layer.id} className="flex items-center space-x-3">
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-6 w-6 p-0"
-              >
-                {layer.visible ? (
-                  <Eye className="w-3 h-3" />
-                ) : (
-                  <EyeOff className="w-3 h-3 text-gray-400" />
-                )}
-              </Button>
-              <div
-                className="w-3 h-3 rounded-full"
-                style={{ backgroundColor: layer.color }}
-              />
-              <span className="text-sm flex-1">{layer.name}</span>
-            </div>
-          ))}
+        <CardContent>
+          <LayerTree
+            layers={layers}
+            hiddenLayers={hiddenLayers}
+            visibleLayers={visibleLayers}
+            onToggleLayer={toggleLayer}
+          />
         </CardContent>
       </Card>
 
+      {/* Selection */}
+      <ObjectInspector />
+      <ObjectTree />
+
+      {/* Mass estimates */}
+      <DensityPanel />
+
       {/* Actions */}
       <div className="space-y-2">
         <Button variant="outline" className="w-full">
           <Settings className="w-4 h-4 mr-2" />
           Settings
         </Button>
-        <Button variant="outline" className="w-full">
+        <Button variant="outline" className="w-full" onClick={() => setMaterialsOpen(true)}>
           <Palette className="w-4 h-4 mr-2" />
           Materials
         </Button>
       </div>
+      <MaterialBrowser open={materialsOpen} onOpenChange={setMaterialsOpen} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useRef, type ElementRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { OrbitControls, PerspectiveCamera } from "@react-three/drei";
+import { Box3, PerspectiveCamera as PerspectiveCameraImpl, Vector3 } from "three";
+import {
+  fitDistance,
+  orbitOffset,
+  rotationFromOffset,
+  VIEWER_FOV,
+  type ViewerControls
+} from "@/lib/viewer-controls";
+
+type OrbitControlsImpl = ElementRef<typeof OrbitControls>;
+
+const TRANSITION_MS = 600;
+
+// Where the camera orbits from, in the same terms as ViewerControls
+interface CameraPose {
+  target: Vector3;
+  rotation: ViewerControls['rotation'];
+  distance: number;
+}
+
+// Moves along the orbit rather than in a straight line, so that the camera does not
+// cut through the model; the azimuth takes the short way round
+function interpolatePose(from: CameraPose, to: CameraPose, t: number): CameraPose {
+  const turn = to.rotation.z - from.rotation.z;
+  const azimuthDelta = turn - 2 * Math.PI * Math.round(turn / (2 * Math.PI));
+  return {
+    target: from.target.clone().lerp(to.target, t),
+    rotation: {
+      x: from.rotation.x + (to.rotation.x - from.rotation.x) * t,
+      y: 0,
+      z: from.rotation.z + azimuthDelta * t
+    },
+    distance: from.distance * Math.pow(to.distance / from.distance, t)
+  };
+}
+
+function applyPose(camera: PerspectiveCameraImpl, orbit: OrbitControlsImpl, pose: CameraPose) {
+  camera.position.copy(pose.target).add(orbitOffset(pose.rotation, pose.distance));
+  orbit.target.copy(pose.target);
+  orbit.update();
+}
+
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+interface ViewerCameraProps {
+  controls: ViewerControls;
+  onControlsChange: (controls: ViewerControls) => void;
+  bounds: Box3;
+}
+
+const sameView = (a: ViewerControls, b: ViewerControls) =>
+  a.zoom === b.zoom &&
+  a.rotation === b.rotation &&
+  a.position === b.position;
+
+// Orbit camera bound two ways to the page's ViewerControls: prop changes move
+// the camera, and user orbiting/zooming is reported back when it ends.
+// Moves on the same model glide to the new view; a new model is framed at once.
+export const ViewerCamera = ({ controls, onControlsChange, bounds }: ViewerCameraProps) => {
+  const cameraRef = useRef<PerspectiveCameraImpl>(null);
+  const orbitRef = useRef<OrbitControlsImpl>(null);
+  const lastEmitted = useRef<ViewerControls | null>(null);
+  const lastApplied = useRef<{ controls: ViewerControls; bounds: Box3 } | null>(null);
+  const transition = useRef<{ from: CameraPose; to: CameraPose; start: number } | null>(null);
+  const controlsRef = useRef(controls);
+  controlsRef.current = controls;
+
+  const baseDistance = useMemo(() => fitDistance(bounds, VIEWER_FOV), [bounds]);
+  const center = useMemo(() => bounds.isEmpty() ? new Vector3() : bounds.getCenter(new Vector3()), [bounds]);
+
+  // Page state -> camera
+  useEffect(() => {
+    const camera = cameraRef.current;
+    const orbit = orbitRef.current;
+    if (!camera || !orbit) return;
+
+    const previous = lastApplied.current;
+    lastApplied.current = { controls, bounds };
+
+    // Our own report coming back, or only the auto-rotate flag changed
+    if (controls === lastEmitted.current) return;
+    if (previous && previous.bounds === bounds && sameView(previous.controls, controls)) return;
+    // New bounds only matter while the view is centred on the model
+    if (previous && previous.controls === controls && controls.position) return;
+
+    const target = controls.position
+      ? new Vector3(controls.position.x, controls.position.y, controls.position.z)
+      : center.clone();
+
+    camera.near = baseDistance / 1000;
+    camera.far = baseDistance * 100;
+    camera.updateProjectionMatrix();
+
+    const to: CameraPose = { target, rotation: controls.rotation, distance: baseDistance / controls.zoom };
+    if (previous && previous.bounds === bounds) {
+      const offset = camera.position.clone().sub(orbit.target);
+      const from: CameraPose = { target: orbit.target.clone(), rotation: rotationFromOffset(offset), distance: offset.length() };
+      transition.current = { from, to, start: performance.now() };
+    } else {
+      transition.current = null;
+      applyPose(camera, orbit, to);
+    }
+  }, [controls, bounds, baseDistance, center]);
+
+  useFrame(() => {
+    const current = transition.current;
+    const camera = cameraRef.current;
+    const orbit = orbitRef.current;
+    if (!current || !camera || !orbit) return;
+
+    const t = Math.min(1, (performance.now() - current.start) / TRANSITION_MS);
+    applyPose(camera, orbit, interpolatePose(current.from, current.to, easeInOut(t)));
+    if (t === 1) transition.current = null;
+  });
+
+  // Grabbing the view stops a transition where it is
+  const stopTransition = () => {
+    transition.current = null;
+  };
+
+  // Camera -> page state
+  const handleEnd = () => {
+    const camera = cameraRef.current;
+    const orbit = orbitRef.current;
+    if (!camera || !orbit) return;
+
+    const offset = camera.position.clone().sub(orbit.target);
+    const next: ViewerControls = {
+      ...controlsRef.current,
+      zoom: baseDistance / offset.length(),
+      rotation: rotationFromOffset(offset),
+      position: { x: orbit.target.x, y: orbit.target.y, z: orbit.target.z }
+    };
+
+    lastEmitted.current = next;
+    onControlsChange(next);
+  };
+
+  return (
+    <>
+      <PerspectiveCamera ref={cameraRef} makeDefault fov={VIEWER_FOV} up={[0, 0, 1]} position={[5, -5, 5]} />
+      {/* The default controls, so that gizmos can pause orbiting while they are dragged */}
+      <OrbitControls
+        ref={orbitRef}
+        makeDefault
+        enablePan={true}
+        enableZoom={true}
+        enableRotate={true}
+        dampingFactor={0.05}
+        screenSpacePanning={true}
+        minDistance={baseDistance * 0.01}
+        maxDistance={baseDistance * 20}
+        autoRotate={controls.autoRotate}
+        autoRotateSpeed={1}
+        onStart={stopTransition}
+        onEnd={handleEnd}
+      />
+    </>
+  );
+};
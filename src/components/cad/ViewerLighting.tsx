@@ -0,0 +1,104 @@
+import { Component, Suspense, useLayoutEffect, useMemo, useRef, type ReactNode } from "react";
+import { Environment } from "@react-three/drei";
+import { Sphere, Vector3, type Box3, type DirectionalLight } from "three";
+import type { EnvironmentPreset } from "@/hooks/use-viewer-settings";
+
+// Environment maps are Y-up; this turns their sky towards the viewer's +Z
+const ENVIRONMENT_ROTATION: [number, number, number] = [Math.PI / 2, 0, 0];
+
+// Direction the key light shines from
+const KEY_LIGHT_DIRECTION = new Vector3(10, 10, 5).normalize();
+
+const SHADOW_MAP_SIZE = 2048;
+
+const environmentUrl = (preset: Exclude<EnvironmentPreset, 'none'>) =>
+  `${import.meta.env.BASE_URL}environments/${preset}.hdr`;
+
+// Shows the analytic lights instead of an environment map that failed to load
+class EnvironmentBoundary extends Component<{ fallback: ReactNode; children: ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.warn('Could not load the environment map; using analytic lighting instead:', error);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+// Stands in for image-based lighting: sky and ground bounce around the Z axis
+const AnalyticFill = () => (
+  <hemisphereLight args={['#ffffff', '#a8a29e', 0.9]} position={[0, 0, 1]} />
+);
+
+interface ViewerLightingProps {
+  bounds: Box3;
+  environment: EnvironmentPreset;
+  shadows: boolean;
+}
+
+// Lights for the viewer: a key and a fill light, image-based lighting from the HDR maps bundled
+// in public/environments (so nothing is fetched from a CDN), and optional ground shadows
+export const ViewerLighting = ({ bounds, environment, shadows }: ViewerLightingProps) => {
+  const keyLight = useRef<DirectionalLight>(null);
+  const { center, radius } = useMemo(() => {
+    if (bounds.isEmpty()) return { center: new Vector3(), radius: 5 };
+    const sphere = bounds.getBoundingSphere(new Sphere());
+    return { center: sphere.center, radius: Math.max(sphere.radius, 1e-3) };
+  }, [bounds]);
+
+  // The key light sits outside the model so its shadow camera can cover all of it
+  useLayoutEffect(() => {
+    const light = keyLight.current;
+    if (!light) return;
+    light.position.copy(center).addScaledVector(KEY_LIGHT_DIRECTION, radius * 3);
+    light.target.position.copy(center);
+    light.target.updateMatrixWorld();
+
+    const camera = light.shadow.camera;
+    camera.left = -radius;
+    camera.right = radius;
+    camera.top = radius;
+    camera.bottom = -radius;
+    camera.near = radius;
+    camera.far = radius * 5;
+    camera.updateProjectionMatrix();
+    light.shadow.normalBias = radius * 0.002;
+  }, [center, radius]);
+
+  return (
+    <>
+      <ambientLight intensity={0.4} />
+      <directionalLight
+        ref={keyLight}
+        intensity={1}
+        castShadow={shadows}
+        shadow-mapSize={[SHADOW_MAP_SIZE, SHADOW_MAP_SIZE]}
+      />
+      <directionalLight position={[-10, -10, -5]} intensity={0.3} />
+
+      {environment === 'none' ? (
+        <AnalyticFill />
+      ) : (
+        <EnvironmentBoundary key={environment} fallback={<AnalyticFill />}>
+          <Suspense fallback={<AnalyticFill />}>
+            <Environment files={environmentUrl(environment)} environmentRotation={ENVIRONMENT_ROTATION} />
+          </Suspense>
+        </EnvironmentBoundary>
+      )}
+
+      {/* Catches the model's shadows on the ground just below it */}
+      {shadows && !bounds.isEmpty() && (
+        <mesh position={[center.x, center.y, bounds.min.z - radius * 1e-3]} receiveShadow raycast={() => null}>
+          <planeGeometry args={[radius * 8, radius * 8]} />
+          <shadowMaterial transparent opacity={0.3} />
+        </mesh>
+      )}
+    </>
+  );
+};
@@ -1,5 +1,6 @@
 import { Home, Car, Users, Fuel, Wrench, Settings, Box } from "lucide-react";
 import { Link } from "react-router-dom";
+import { currentUser } from "@/lib/session";
 
 const menuItems = [
   { icon: Home, label: "Overview", path: "/" },
@@ -37,11 +38,11 @@ export const Sidebar = () => {
       <div className="mt-auto pt-4 border-t border-gray-700">
         <div className="flex items-center px-4 py-2">
           <div className="w-8 h-8 rounded-full bg-accent flex items-center justify-center">
-            <span className="text-white font-medium">AD</span>
+            <span className="text-white font-medium">{currentUser.initials}</span>
           </div>
           <div className="ml-3">
-            <p className="text-sm font-medium text-white">Admin</p>
-            <p className="text-xs text-gray-400">admin@fleet.com</p>
+            <p className="text-sm font-medium text-white">{currentUser.name}</p>
+            <p className="text-xs text-gray-400">{currentUser.email}</p>
           </div>
         </div>
       </div>
@@ -1,41 +1,8 @@
 import { Car, Battery, AlertTriangle } from "lucide-react";
+import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";  // Add this import
-
-interface Vehicle {
-  id: string;
-  plate: string;
-  model: string;
-  status: "active" | "maintenance" | "issue";
-  driver: string;
-  lastUpdate: string;
-}
-
-const vehicles: Vehicle[] = [
-  {
-    id: "1",
-    plate: "AB-123-CD",
-    model: "Tesla Model 3",
-    status: "active",
-    driver: "John Smith",
-    lastUpdate: "5 min ago",
-  },
-  {
-    id: "2",
-    plate: "EF-456-GH",
-    model: "Renault Zoe",
-    status: "maintenance",
-    driver: "Mary Johnson",
-    lastUpdate: "2h ago",
-  },
-  {
-    id: "3",
-    plate: "IJ-789-KL",
-    model: "Peugeot e-208",
-    status: "issue",
-    driver: "Peter Wilson",
-    lastUpdate: "30 min ago",
-  },
-];
+import { vehicles } from "@/lib/vehicles";
+import { useDamageReports } from "@/hooks/use-damage-reports";
 
 const statusConfig = {
   active: { color: "text-success", icon: Car },
@@ -44,6 +11,8 @@ const statusConfig = {
 };
 
 export const VehicleList = () => {
+  const { reports } = useDamageReports();
+
   return (
     <div className="bg-white rounded-lg shadow-sm">
       <div className="p-6 border-b border-gray-200">
@@ -52,8 +21,13 @@ export const VehicleList = () => {
       <div className="divide-y divide-gray-200">
         {vehicles.map((vehicle) => {
           const StatusIcon = statusConfig[vehicle.status].icon;
+          const damageCount = reports.filter((report) => report.vehicleId === vehicle.id).length;
           return (
-            <div key={vehicle.id} className="p-6 flex items-center justify-between hover:bg-gray-50">
+            <Link
+              key={vehicle.id}
+              to={`/vehicles/${vehicle.id}`}
+              className="p-6 flex items-center justify-between hover:bg-gray-50"
+            >
               <div className="flex items-center space-x-4">
                 <div className={cn(
                   "p-2 rounded-lg",
@@ -64,13 +38,18 @@ export const VehicleList = () => {
                 <div>
                   <p className="font-medium text-gray-900">{vehicle.plate}</p>
                   <p className="text-sm text-gray-500">{vehicle.model}</p>
+                  {damageCount > 0 && (
+                    <p className="text-xs text-error">
+                      {damageCount} damage report{damageCount > 1 ? 's' : ''}
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="text-right">
                 <p className="font-medium text-gray-900">{vehicle.driver}</p>
                 <p className="text-sm text-gray-500">{vehicle.lastUpdate}</p>
               </div>
-            </div>
+            </Link>
           );
         })}
       </div>
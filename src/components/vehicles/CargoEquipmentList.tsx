@@ -0,0 +1,118 @@
+import { useMemo } from "react";
+import { AlertTriangle, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { objectLabel, useCadScene } from "@/hooks/use-cad-scene";
+import { useDensities } from "@/hooks/use-densities";
+import type { FixedLoad } from "@/lib/cargo";
+import { combineMassProperties, objectDensity } from "@/lib/mass";
+import { FALLBACK_METERS_PER_UNIT, metersPerUnit } from "@/lib/units";
+
+interface CargoEquipmentListProps {
+  equipment: FixedLoad[];
+  onChange: (equipment: FixedLoad[]) => void;
+}
+
+// Fitted equipment weighed from the parts selected on the model, with editable weights
+export const CargoEquipmentList = ({ equipment, onChange }: CargoEquipmentListProps) => {
+  const { objects, blocks, layers, materials, materialOverrides, selectedIds, unitSystem } = useCadScene();
+  const { densities } = useDensities();
+
+  const selected = useMemo(
+    () => objects.filter((object) => selectedIds.includes(object.id)),
+    [objects, selectedIds]
+  );
+  const selection = useMemo(
+    () => selected.length > 0
+      ? combineMassProperties(
+          selected,
+          blocks,
+          metersPerUnit(unitSystem) ?? FALLBACK_METERS_PER_UNIT,
+          (object) => objectDensity(object, layers, materials, materialOverrides, densities)
+        )
+      : null,
+    [selected, blocks, unitSystem, layers, materials, materialOverrides, densities]
+  );
+
+  const addSelection = () => {
+    if (!selection?.centroid) return;
+    onChange([
+      ...equipment,
+      {
+        id: crypto.randomUUID(),
+        name: selected.length === 1 ? objectLabel(selected[0]) : `${selected.length} pièces`,
+        weight: Math.round(selection.mass ?? 0),
+        position: selection.centroid
+      }
+    ]);
+  };
+
+  const update = (id: string, changes: Partial<FixedLoad>) =>
+    onChange(equipment.map((load) => (load.id === id ? { ...load, ...changes } : load)));
+
+  const totalWeight = equipment.reduce((sum, load) => sum + load.weight, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-gray-500">{Math.round(totalWeight)} kg installés</p>
+        <Button size="sm" variant="outline" disabled={!selection?.centroid} onClick={addSelection}>
+          <Plus className="w-4 h-4 mr-2" />
+          Ajouter la sélection
+        </Button>
+      </div>
+
+      {selection && (
+        <div className="space-y-1 text-xs text-gray-500">
+          {selection.centroid === null ? (
+            <p>La sélection n'a aucune surface à peser.</p>
+          ) : selection.mass === null ? (
+            <p>Renseignez les densités de ses calques ou matériaux dans l'espace CAO, ou saisissez le poids après l'ajout.</p>
+          ) : (
+            <p>Sélection : {selection.mass.toFixed(1)} kg</p>
+          )}
+          {selection.openCount > 0 && (
+            <p className="flex items-center text-orange-600">
+              <AlertTriangle className="w-3 h-3 mr-1 shrink-0" />
+              {selection.openCount} maillage{selection.openCount > 1 ? 's' : ''} ouvert{selection.openCount > 1 ? 's' : ''} ; le poids peut être faux
+            </p>
+          )}
+        </div>
+      )}
+
+      {equipment.length === 0 ? (
+        <p className="text-sm text-gray-500">Sélectionnez les rayonnages, étagères ou autres pièces installées sur le modèle pour les compter dans la charge utile.</p>
+      ) : (
+        <div className="space-y-2">
+          {equipment.map((load) => (
+            <div key={load.id} className="flex items-center gap-2">
+              <Input
+                value={load.name}
+                className="h-8 text-sm"
+                onChange={(e) => update(load.id, { name: e.target.value })}
+              />
+              <Input
+                type="number"
+                min={0}
+                value={load.weight}
+                className="h-8 w-24 shrink-0 text-sm"
+                aria-label="Poids (kg)"
+                onChange={(e) => update(load.id, { weight: Math.max(0, Number(e.target.value) || 0) })}
+              />
+              <span className="text-xs text-gray-500">kg</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                title="Retirer"
+                onClick={() => onChange(equipment.filter((other) => other.id !== load.id))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CARGO_PRESETS, cargoColor, type CargoItem } from "@/lib/cargo";
+
+interface CargoLoadListProps {
+  items: CargoItem[];
+  onChange: (items: CargoItem[]) => void;
+}
+
+const NUMBER_FIELDS: Array<{ key: 'length' | 'width' | 'height' | 'weight' | 'quantity'; label: string }> = [
+  { key: 'length', label: 'L (cm)' },
+  { key: 'width', label: 'l (cm)' },
+  { key: 'height', label: 'H (cm)' },
+  { key: 'weight', label: 'kg / unité' },
+  { key: 'quantity', label: 'Qté' }
+];
+
+// The boxes to load, edited in place
+export const CargoLoadList = ({ items, onChange }: CargoLoadListProps) => {
+  const update = (id: string, changes: Partial<CargoItem>) =>
+    onChange(items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+
+  const add = (preset: Omit<CargoItem, 'id' | 'quantity'>) =>
+    onChange([...items, { ...preset, id: crypto.randomUUID(), quantity: 1 }]);
+
+  const totalWeight = items.reduce((sum, item) => sum + item.weight * item.quantity, 0);
+  const totalUnits = items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          {totalUnits} unité{totalUnits > 1 ? 's' : ''} · {Math.round(totalWeight)} kg
+        </p>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline">
+              <Plus className="w-4 h-4 mr-2" />
+              Ajouter
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {CARGO_PRESETS.map((preset) => (
+              <DropdownMenuItem key={preset.name} onClick={() => add(preset)}>
+                {preset.name}
+                <span className="ml-auto pl-4 text-xs text-gray-500">
+                  {preset.length}×{preset.width}×{preset.height} · {preset.weight} kg
+                </span>
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() =>
+                add({ name: 'Carton', length: 50, width: 50, height: 50, weight: 10, upright: false, stackable: true })
+              }
+            >
+              Carton sur mesure
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">Ajoutez des colis ou du matériel pour planifier le chargement.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nom</TableHead>
+              {NUMBER_FIELDS.map((field) => (
+                <TableHead key={field.key} className="w-20">{field.label}</TableHead>
+              ))}
+              <TableHead className="w-16" title="Pivoté uniquement autour de l'axe vertical">Debout</TableHead>
+              <TableHead className="w-16" title="D'autres colis peuvent être posés dessus">Empilable</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => (
+              <TableRow key={item.id}>
+                <TableCell className="py-1">
+                  <div className="flex items-center gap-2">
+                    <span className="h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: cargoColor(index) }} />
+                    <Input
+                      className="h-8"
+                      value={item.name}
+                      onChange={(e) => update(item.id, { name: e.target.value })}
+                    />
+                  </div>
+                </TableCell>
+                {NUMBER_FIELDS.map((field) => (
+                  <TableCell key={field.key} className="py-1">
+                    <Input
+                      className="h-8 px-2"
+                      type="number"
+                      min={field.key === 'quantity' ? 0 : undefined}
+                      step={field.key === 'quantity' ? 1 : 'any'}
+                      value={item[field.key]}
+                      onChange={(e) => update(item.id, { [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="py-1">
+                  <Checkbox
+                    checked={item.upright}
+                    onCheckedChange={(checked) => update(item.id, { upright: checked === true })}
+                  />
+                </TableCell>
+                <TableCell className="py-1">
+                  <Checkbox
+                    checked={item.stackable}
+                    onCheckedChange={(checked) => update(item.id, { stackable: checked === true })}
+                  />
+                </TableCell>
+                <TableCell className="py-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    title="Retirer"
+                    onClick={() => onChange(items.filter((other) => other.id !== item.id))}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
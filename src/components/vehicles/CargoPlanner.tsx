@@ -0,0 +1,426 @@
+import { useEffect, useMemo, useState } from "react";
+import { Vector3 } from "three";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+  Crosshair,
+  Loader2,
+  Maximize,
+  Pause,
+  Play,
+  XCircle
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CADViewer, type SurfacePick } from "@/components/cad/CADViewer";
+import { CargoEquipmentList } from "@/components/vehicles/CargoEquipmentList";
+import { CargoLoadList } from "@/components/vehicles/CargoLoadList";
+import { CargoScene } from "@/components/vehicles/CargoScene";
+import { useCadScene } from "@/hooks/use-cad-scene";
+import { useCargoPlan } from "@/hooks/use-cargo-plans";
+import { useLibraryVersion } from "@/hooks/use-library-version";
+import { useModelLibrary } from "@/hooks/use-model-library";
+import { useVehicleModels, VEHICLE_MODEL_ROLES } from "@/hooks/use-vehicle-models";
+import {
+  cargoDimensions,
+  packCargo,
+  summarizeLoad,
+  type CargoForward,
+  type CargoSpace,
+  type CheckStatus,
+  type LoadLimits
+} from "@/lib/cargo";
+import { computeBounds } from "@/lib/geometry";
+import { toPoint3, type Point3 } from "@/lib/measure";
+import { FALLBACK_METERS_PER_UNIT, metersPerUnit } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import { defaultViewerControls, type ViewerControls } from "@/lib/viewer-controls";
+import type { Vehicle } from "@/lib/vehicles";
+
+const FORWARD_OPTIONS: Array<{ value: CargoForward; label: string }> = [
+  { value: '-x', label: 'Cabine vers −X' },
+  { value: '+x', label: 'Cabine vers +X' },
+  { value: '-y', label: 'Cabine vers −Y' },
+  { value: '+y', label: 'Cabine vers +Y' }
+];
+
+const LIMIT_FIELDS: Array<{ key: keyof LoadLimits; label: string }> = [
+  { key: 'maxPayload', label: 'Charge utile max (kg)' },
+  { key: 'frontAxleMax', label: 'Essieu avant max (kg)' },
+  { key: 'rearAxleMax', label: 'Essieu arrière max (kg)' },
+  { key: 'frontAxle', label: 'Essieu avant depuis la cloison (cm)' },
+  { key: 'rearAxle', label: 'Essieu arrière depuis la cloison (cm)' }
+];
+
+const CHECK_ICONS: Record<CheckStatus, { icon: typeof CheckCircle2; className: string }> = {
+  ok: { icon: CheckCircle2, className: 'text-green-600' },
+  warning: { icon: AlertTriangle, className: 'text-orange-500' },
+  error: { icon: XCircle, className: 'text-red-600' }
+};
+
+const STEP_INTERVAL_MS = 600;
+
+// Plans how the load list fits in the cargo space of the vehicle's body model and replays it box by box
+export const CargoPlanner = ({ vehicle }: { vehicle: Vehicle }) => {
+  const { links } = useVehicleModels(vehicle.id);
+  const { models } = useModelLibrary();
+  const { plan, updatePlan } = useCargoPlan(vehicle.id);
+  const { objects, selectedIds, unitSystem } = useCadScene();
+  const [linkId, setLinkId] = useState<string | null>(null);
+  const [controls, setControls] = useState<ViewerControls>(defaultViewerControls);
+  const [picking, setPicking] = useState(false);
+  const [pendingCorner, setPendingCorner] = useState<Point3 | null>(null);
+  const [step, setStep] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+
+  const link = links.find((l) => l.id === linkId) ?? links.find((l) => l.role === 'body') ?? links[0];
+  const model = link && models.find((m) => m.id === link.modelId);
+  const { loaded, error: loadError } = useLibraryVersion(link ? link.versionId ?? model?.latestVersionId : null);
+
+  const unitsPerCm = 0.01 / (metersPerUnit(unitSystem) ?? FALLBACK_METERS_PER_UNIT);
+  const cm = (value: number) => `${Math.round(value / unitsPerCm)} cm`;
+  const modelBounds = useMemo(() => computeBounds(objects), [objects]);
+
+  const packing = useMemo(
+    () => (plan.space ? packCargo(plan.space, plan.items, unitsPerCm) : null),
+    [plan.space, plan.items, unitsPerCm]
+  );
+  const total = packing?.placed.length ?? 0;
+  const shownStep = Math.min(step ?? total, total);
+  const summary = plan.space && packing && summarizeLoad(
+    plan.space,
+    packing.placed.slice(0, shownStep),
+    plan.limits,
+    unitsPerCm,
+    shownStep === total ? packing.unplaced.length : 0,
+    plan.equipment
+  );
+  const itemIndex = useMemo(() => new Map(plan.items.map((item, index) => [item.id, index])), [plan.items]);
+
+  // A new plan is shown fully loaded
+  useEffect(() => {
+    setStep(null);
+    setPlaying(false);
+  }, [packing]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (shownStep >= total) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(shownStep + 1), STEP_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, shownStep, total]);
+
+  const setSpace = (min: Point3, max: Point3) =>
+    updatePlan({ space: { min, max, forward: plan.space?.forward ?? '-x' } });
+
+  const fitToSelection = () => {
+    const selected = objects.filter((object) => selectedIds.includes(object.id));
+    const bounds = computeBounds(selected.length > 0 ? selected : objects);
+    if (bounds.isEmpty()) return;
+    setSpace(toPoint3(bounds.min), toPoint3(bounds.max));
+  };
+
+  // Two clicks on the floor give its opposite corners; the height is kept or runs up to the roof
+  const pickCorner = ({ point }: SurfacePick) => {
+    if (!pendingCorner) {
+      setPendingCorner(point);
+      return;
+    }
+    const floor = Math.min(point[2], pendingCorner[2]);
+    const height = plan.space ? plan.space.max[2] - plan.space.min[2] : modelBounds.max.z - floor;
+    setSpace(
+      [Math.min(point[0], pendingCorner[0]), Math.min(point[1], pendingCorner[1]), floor],
+      [Math.max(point[0], pendingCorner[0]), Math.max(point[1], pendingCorner[1]), floor + height]
+    );
+    setPendingCorner(null);
+    setPicking(false);
+  };
+
+  const updateSpace = (changes: Partial<CargoSpace>) => plan.space && updatePlan({ space: { ...plan.space, ...changes } });
+
+  const dimensions = plan.space && cargoDimensions(plan.space);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+      <Card className="lg:col-span-3">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="text-lg">Plan de chargement</CardTitle>
+            {links.length > 1 && (
+              <Select value={link?.id} onValueChange={setLinkId}>
+                <SelectTrigger className="h-8 w-56 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {links.map((l) => (
+                    <SelectItem key={l.id} value={l.id}>
+                      {models.find((m) => m.id === l.modelId)?.name ?? 'Modèle introuvable'} · {VEHICLE_MODEL_ROLES[l.role].fleetLabel}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-[32rem]">
+            {loaded ? (
+              <CADViewer
+                file={loaded.file}
+                cachedScene={loaded.cache}
+                controls={controls}
+                onControlsChange={setControls}
+                onSurfacePick={picking ? pickCorner : undefined}
+              >
+                <CargoScene
+                  space={plan.space}
+                  boxes={packing?.placed ?? []}
+                  step={shownStep}
+                  itemIndex={itemIndex}
+                  pendingCorner={pendingCorner}
+                  markerRadius={modelBounds.isEmpty() ? 1 : modelBounds.getSize(new Vector3()).length() / 200}
+                />
+              </CADViewer>
+            ) : (
+              <div className="flex h-full items-center justify-center rounded-lg bg-gray-50 text-sm text-gray-500">
+                {loadError ?? (link
+                  ? <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                  : 'Associez le modèle de caisse dans l\'onglet Aperçu 3D pour planifier le chargement')}
+              </div>
+            )}
+          </div>
+
+          {total > 0 && (
+            <div className="flex items-center gap-3">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 px-2"
+                title={playing ? 'Pause' : 'Rejouer le chargement'}
+                onClick={() => {
+                  if (!playing && shownStep >= total) setStep(0);
+                  setPlaying(!playing);
+                }}
+              >
+                {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2"
+                disabled={shownStep === 0}
+                onClick={() => setStep(shownStep - 1)}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Slider
+                min={0}
+                max={total}
+                step={1}
+                value={[shownStep]}
+                onValueChange={([value]) => {
+                  setPlaying(false);
+                  setStep(value);
+                }}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2"
+                disabled={shownStep === total}
+                onClick={() => setStep(shownStep + 1)}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <span className="w-40 shrink-0 text-right text-xs text-gray-500">
+                {shownStep} / {total}
+                {shownStep > 0 && ` · ${packing.placed[shownStep - 1].name}`}
+              </span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-6">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Espace de chargement</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={picking ? 'default' : 'outline'}
+                size="sm"
+                disabled={!loaded}
+                onClick={() => {
+                  setPicking(!picking);
+                  setPendingCorner(null);
+                }}
+              >
+                <Crosshair className="w-4 h-4 mr-2" />
+                Choisir le plancher
+              </Button>
+              <Button variant="outline" size="sm" disabled={objects.length === 0} onClick={fitToSelection}>
+                <Maximize className="w-4 h-4 mr-2" />
+                {selectedIds.length > 0 ? 'Ajuster à la sélection' : 'Ajuster au modèle'}
+              </Button>
+            </div>
+            {picking && (
+              <p className="text-xs text-gray-500">
+                {pendingCorner ? 'Cliquez sur le coin opposé du plancher.' : 'Cliquez sur un coin du plancher de chargement.'}
+              </p>
+            )}
+            {!metersPerUnit(unitSystem) && objects.length > 0 && (
+              <p className="text-xs text-orange-600">Le modèle n'a pas d'unités ; les dimensions sont lues en millimètres.</p>
+            )}
+            {plan.space && dimensions ? (
+              <div className="space-y-3">
+                <p className="text-sm">
+                  {cm(dimensions[0])} de long × {cm(dimensions[1])} de large
+                  <span className="text-gray-500"> · {((dimensions[0] * dimensions[1] * dimensions[2]) / unitsPerCm ** 3 / 1e6).toFixed(2)} m³</span>
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="cargoHeight" className="text-xs">Hauteur (cm)</Label>
+                    <Input
+                      id="cargoHeight"
+                      className="h-8"
+                      type="number"
+                      min={0}
+                      value={Math.round(dimensions[2] / unitsPerCm)}
+                      onChange={(e) => {
+                        const height = Math.max(0, Number(e.target.value) || 0) * unitsPerCm;
+                        updateSpace({ max: [plan.space.max[0], plan.space.max[1], plan.space.min[2] + height] });
+                      }}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Orientation</Label>
+                    <Select
+                      value={plan.space.forward}
+                      onValueChange={(value) => updateSpace({ forward: value as CargoForward })}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FORWARD_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Choisissez le plancher de chargement sur le modèle, ou ajustez l'espace aux objets sélectionnés.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Contrôles</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {summary ? (
+              <>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div>
+                    <p className="text-xs text-gray-500">Chargé</p>
+                    <p className="font-medium">{Math.round(summary.weight)} kg</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">Volume occupé</p>
+                    <p className="font-medium">{Math.round(summary.fill * 100)} %</p>
+                  </div>
+                  {summary.equipmentWeight > 0 && (
+                    <div>
+                      <p className="text-xs text-gray-500">Équipements</p>
+                      <p className="font-medium">{Math.round(summary.equipmentWeight)} kg</p>
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  {summary.checks.map((check, index) => {
+                    const { icon: Icon, className } = CHECK_ICONS[check.status];
+                    return (
+                      <div key={index} className="flex items-center gap-2 text-sm">
+                        <Icon className={cn("w-4 h-4 shrink-0", className)} />
+                        <span className="flex-1">{check.label}</span>
+                        <span className="text-xs text-gray-500">{check.detail}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+                {shownStep === total && packing.unplaced.length > 0 && (
+                  <p className="text-xs text-red-600">
+                    Non chargé : {[...new Set(packing.unplaced)]
+                      .map((id) => {
+                        const count = packing.unplaced.filter((other) => other === id).length;
+                        return `${plan.items.find((item) => item.id === id)?.name} ×${count}`;
+                      })
+                      .join(', ')}
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Définissez l'espace de chargement pour contrôler la charge.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Équipements</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CargoEquipmentList equipment={plan.equipment} onChange={(equipment) => updatePlan({ equipment })} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Limites</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-2">
+            {LIMIT_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`limit-${field.key}`} className="text-xs">{field.label}</Label>
+                <Input
+                  id={`limit-${field.key}`}
+                  className="h-8"
+                  type="number"
+                  value={plan.limits[field.key]}
+                  onChange={(e) =>
+                    updatePlan({ limits: { ...plan.limits, [field.key]: Number(e.target.value) || 0 } })
+                  }
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="lg:col-span-5">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Liste de chargement</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CargoLoadList items={plan.items} onChange={(items) => updatePlan({ items })} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import { Edges } from "@react-three/drei";
+import { cargoColor, toModelBox, type CargoSpace, type PlacedBox } from "@/lib/cargo";
+import type { Point3 } from "@/lib/measure";
+
+interface CargoSceneProps {
+  space: CargoSpace | null;
+  // In loading order; only the first `step` are drawn
+  boxes: PlacedBox[];
+  step: number;
+  // Load list line of each item id, for its colour
+  itemIndex: Map<string, number>;
+  // First floor corner while the cargo space is being picked
+  pendingCorner: Point3 | null;
+  markerRadius: number;
+}
+
+const centerAndSize = ({ min, max }: { min: Point3; max: Point3 }) => ({
+  center: [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2] as Point3,
+  size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]] as Point3,
+});
+
+// The cargo space outline and the boxes loaded so far, drawn inside the CAD viewer
+export const CargoScene = ({ space, boxes, step, itemIndex, pendingCorner, markerRadius }: CargoSceneProps) => {
+  const outline = space && centerAndSize(space);
+
+  return (
+    <>
+      {outline && (
+        <mesh position={outline.center}>
+          <boxGeometry args={outline.size} />
+          <meshBasicMaterial color="#0ea5e9" transparent opacity={0.06} depthWrite={false} />
+          <Edges color="#0ea5e9" />
+        </mesh>
+      )}
+      {space && boxes.slice(0, step).map((box, index) => {
+        const { center, size } = centerAndSize(toModelBox(space, box.position, box.size));
+        const current = index === step - 1;
+        return (
+          <mesh key={index} position={center}>
+            <boxGeometry args={size} />
+            <meshStandardMaterial
+              color={cargoColor(itemIndex.get(box.itemId) ?? 0)}
+              transparent
+              opacity={current ? 0.95 : 0.75}
+              emissive={current ? '#ffffff' : '#000000'}
+              emissiveIntensity={current ? 0.25 : 0}
+            />
+            <Edges color={current ? '#111827' : '#374151'} />
+          </mesh>
+        );
+      })}
+      {pendingCorner && (
+        <mesh position={pendingCorner}>
+          <sphereGeometry args={[markerRadius, 16, 16]} />
+          <meshBasicMaterial color="#0ea5e9" />
+        </mesh>
+      )}
+    </>
+  );
+};
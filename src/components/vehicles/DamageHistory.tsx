@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Repeat, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useDamageReports } from "@/hooks/use-damage-reports";
+import { useMaintenance } from "@/hooks/use-maintenance";
+import { cn } from "@/lib/utils";
+import { DAMAGE_SEVERITIES, type DamageReport } from "@/lib/damage";
+
+interface DamageHistoryProps {
+  // Oldest first, numbered like the pins
+  reports: DamageReport[];
+  recurrence: Map<string, number>;
+  selectedId: string | null;
+  onSelect: (reportId: string | null) => void;
+}
+
+// Every damage report pinned on the model, with its photos and maintenance intervention
+export const DamageHistory = ({ reports, recurrence, selectedId, onSelect }: DamageHistoryProps) => {
+  const { removeReport } = useDamageReports();
+  const { records } = useMaintenance();
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  if (reports.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Aucun dommage signalé sur ce modèle. Utilisez Signaler un dommage puis cliquez à l'endroit concerné.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {reports.map((report, index) => {
+        const severity = DAMAGE_SEVERITIES[report.severity];
+        const intervention = records.find((record) => record.id === report.interventionId);
+        const repeats = recurrence.get(report.id) ?? 1;
+        return (
+          <div
+            key={report.id}
+            className={cn(
+              "flex gap-3 rounded border p-3 text-sm cursor-pointer hover:bg-gray-50",
+              report.id === selectedId && "border-primary bg-primary/5"
+            )}
+            onClick={() => onSelect(report.id === selectedId ? null : report.id)}
+          >
+            <span
+              className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-xs font-semibold text-white"
+              style={{ backgroundColor: severity.color }}
+            >
+              {index + 1}
+            </span>
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{report.date}</span>
+                <Badge variant="outline" style={{ borderColor: severity.color, color: severity.color }}>
+                  {severity.label}
+                </Badge>
+                {repeats > 1 && (
+                  <Badge variant="secondary" title="Signalements dans la même zone">
+                    <Repeat className="w-3 h-3 mr-1" />
+                    {repeats} dans cette zone
+                  </Badge>
+                )}
+              </div>
+              <p>{report.description}</p>
+              <p className="text-xs text-gray-500">
+                {report.reportedBy} · {intervention
+                  ? `${intervention.issue} (${intervention.status})`
+                  : 'Intervention supprimée'}
+              </p>
+              {report.photos.length > 0 && (
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {report.photos.map((photo, photoIndex) => (
+                    <img key={photoIndex} src={photo} alt="" className="w-16 h-12 rounded border object-cover" />
+                  ))}
+                </div>
+              )}
+            </div>
+            <Button
+              variant={confirmDelete === report.id ? 'destructive' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 shrink-0"
+              title={confirmDelete === report.id ? 'Cliquez à nouveau pour supprimer' : 'Supprimer le signalement'}
+              onClick={(event) => {
+                event.stopPropagation();
+                if (confirmDelete !== report.id) {
+                  setConfirmDelete(report.id);
+                  return;
+                }
+                removeReport(report.id);
+                setConfirmDelete(null);
+                if (report.id === selectedId) onSelect(null);
+              }}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
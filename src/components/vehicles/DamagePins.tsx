@@ -0,0 +1,37 @@
+import { Html } from "@react-three/drei";
+import { cn } from "@/lib/utils";
+import { DAMAGE_SEVERITIES, type DamageReport } from "@/lib/damage";
+
+interface DamagePinsProps {
+  reports: DamageReport[];
+  // Number of reports around each pin, see recurrenceCounts
+  recurrence: Map<string, number>;
+  selectedId: string | null;
+  onSelect: (reportId: string) => void;
+}
+
+// Numbered pins drawn over the model, oldest first, coloured by severity
+export const DamagePins = ({ reports, recurrence, selectedId, onSelect }: DamagePinsProps) => (
+  <>
+    {reports.map((report, index) => {
+      const repeats = recurrence.get(report.id) ?? 1;
+      return (
+        <Html key={report.id} position={report.position} center zIndexRange={[10, 0]}>
+          <button
+            type="button"
+            title={`${report.date} · ${DAMAGE_SEVERITIES[report.severity].label} · ${report.description}`}
+            className={cn(
+              "flex h-6 min-w-6 items-center justify-center rounded-full border-2 border-white px-1 text-xs font-semibold text-white shadow",
+              selectedId === report.id && "ring-2 ring-primary ring-offset-1"
+            )}
+            style={{ backgroundColor: DAMAGE_SEVERITIES[report.severity].color }}
+            onClick={() => onSelect(report.id)}
+          >
+            {index + 1}
+            {repeats > 1 && <span className="ml-0.5 text-[10px] opacity-90">×{repeats}</span>}
+          </button>
+        </Html>
+      );
+    })}
+  </>
+);
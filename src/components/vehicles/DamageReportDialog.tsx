@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { ImagePlus, Loader2, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { SurfacePick } from "@/components/cad/CADViewer";
+import { useDamageReports } from "@/hooks/use-damage-reports";
+import { isOpenRecord, useMaintenance, type MaintenanceRecord } from "@/hooks/use-maintenance";
+import { useToast } from "@/hooks/use-toast";
+import { DAMAGE_SEVERITIES, resizePhoto, todayIso, type DamageSeverity } from "@/lib/damage";
+import { currentUser } from "@/lib/session";
+import type { Vehicle } from "@/lib/vehicles";
+
+interface DamageReportDialogProps {
+  // The clicked point; the dialog is open while it is set
+  pick: SurfacePick | null;
+  onClose: () => void;
+  vehicle: Vehicle;
+  modelId: string;
+}
+
+const NEW_INTERVENTION = 'new';
+
+// Records damage at a point on the vehicle model and files it under a maintenance intervention
+export const DamageReportDialog = ({ pick, onClose, vehicle, modelId }: DamageReportDialogProps) => {
+  const { addReport } = useDamageReports();
+  const { records, addRecord, removeRecord } = useMaintenance();
+  const { toast } = useToast();
+  const [severity, setSeverity] = useState<DamageSeverity>('minor');
+  const [description, setDescription] = useState('');
+  const [date, setDate] = useState(todayIso);
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [processingPhotos, setProcessingPhotos] = useState(false);
+  const [interventionId, setInterventionId] = useState(NEW_INTERVENTION);
+
+  const openInterventions = records.filter(
+    (record) => isOpenRecord(record) && (record.vehicleId === vehicle.id || record.vehicle === vehicle.plate)
+  );
+
+  useEffect(() => {
+    if (!pick) return;
+    setSeverity('minor');
+    setDescription('');
+    setDate(todayIso());
+    setPhotos([]);
+    setInterventionId(NEW_INTERVENTION);
+  }, [pick]);
+
+  const addPhotos = async (files: FileList | null) => {
+    if (!files) return;
+    setProcessingPhotos(true);
+    try {
+      const resized = await Promise.all([...files].map(resizePhoto));
+      setPhotos((current) => [...current, ...resized]);
+    } catch (error) {
+      toast({
+        title: "Impossible de lire la photo",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setProcessingPhotos(false);
+    }
+  };
+
+  const submit = () => {
+    if (!pick) return;
+    let created: MaintenanceRecord | null = null;
+    try {
+      if (interventionId === NEW_INTERVENTION) {
+        created = addRecord({
+          vehicle: vehicle.plate,
+          vehicleId: vehicle.id,
+          issue: `Dommage ${DAMAGE_SEVERITIES[severity].label.toLowerCase()} : ${description.trim()}`,
+          status: 'En attente',
+          date
+        });
+      }
+      const intervention = created ?? records.find((record) => record.id === interventionId);
+      if (!intervention) return;
+
+      addReport({
+        vehicleId: vehicle.id,
+        modelId,
+        position: pick.point,
+        normal: pick.normal,
+        objectId: pick.objectId,
+        severity,
+        description: description.trim(),
+        photos,
+        date,
+        reportedBy: currentUser.name,
+        interventionId: intervention.id
+      });
+      toast({ title: "Dommage signalé", description: `Rattaché à « ${intervention.issue} »` });
+      onClose();
+    } catch (error) {
+      // The report is what usually fails, on the storage quota; don't leave its intervention behind
+      if (created) removeRecord(created.id);
+      toast({
+        title: "Impossible d'enregistrer le signalement",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!pick} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Signaler un dommage</DialogTitle>
+          <DialogDescription>{vehicle.plate} · épinglé là où vous avez cliqué sur le modèle</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Gravité</Label>
+              <Select value={severity} onValueChange={(value) => setSeverity(value as DamageSeverity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DAMAGE_SEVERITIES) as DamageSeverity[]).map((key) => (
+                    <SelectItem key={key} value={key}>{DAMAGE_SEVERITIES[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="damageDate">Date</Label>
+              <Input id="damageDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="damageDescription">Description</Label>
+            <Textarea
+              id="damageDescription"
+              placeholder="ex. Bosse sur la porte arrière gauche"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Photos</Label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((photo, index) => (
+                <div key={index} className="relative">
+                  <img src={photo} alt="" className="w-16 h-16 rounded border object-cover" />
+                  <button
+                    type="button"
+                    className="absolute -top-1 -right-1 rounded-full bg-white shadow"
+                    title="Retirer la photo"
+                    onClick={() => setPhotos((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <label className="flex w-16 h-16 cursor-pointer items-center justify-center rounded border border-dashed text-gray-400 hover:bg-gray-50">
+                {processingPhotos ? <Loader2 className="w-5 h-5 animate-spin" /> : <ImagePlus className="w-5 h-5" />}
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    addPhotos(e.target.files);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Intervention</Label>
+            <Select value={interventionId} onValueChange={setInterventionId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_INTERVENTION}>Créer une nouvelle intervention</SelectItem>
+                {openInterventions.map((record) => (
+                  <SelectItem key={record.id} value={record.id}>
+                    {record.issue} ({record.status}, {record.date})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button onClick={submit} disabled={!description.trim() || processingPhotos}>Signaler</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Vector3 } from "three";
+import { Box, ExternalLink, Link2, Loader2, MapPin, Unlink } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CADViewer, type SurfacePick } from "@/components/cad/CADViewer";
+import { DamageHistory } from "@/components/vehicles/DamageHistory";
+import { DamagePins } from "@/components/vehicles/DamagePins";
+import { DamageReportDialog } from "@/components/vehicles/DamageReportDialog";
+import { useCadScene } from "@/hooks/use-cad-scene";
+import { useDamageReports } from "@/hooks/use-damage-reports";
+import { useLibraryVersion } from "@/hooks/use-library-version";
+import { useModelLibrary } from "@/hooks/use-model-library";
+import {
+  useVehicleModels,
+  VEHICLE_MODEL_ROLES,
+  type VehicleModelLink,
+  type VehicleModelRole
+} from "@/hooks/use-vehicle-models";
+import { recurrenceCounts } from "@/lib/damage";
+import { computeBounds } from "@/lib/geometry";
+import { cn } from "@/lib/utils";
+import type { Vehicle } from "@/lib/vehicles";
+import { defaultViewerControls, type ViewerControls } from "@/lib/viewer-controls";
+import { rememberOpenVersion } from "@/services/modelLibrary";
+
+// Damage within this share of the model's size counts as the same zone
+const RECURRENCE_RADIUS_RATIO = 0.05;
+
+// The models attached to a vehicle, one at a time in the CAD viewer, with the damage pinned on them
+export const VehicleModelPreview = ({ vehicle }: { vehicle: Vehicle }) => {
+  const vehicleId = vehicle.id;
+  const navigate = useNavigate();
+  const { links, attachModel, detachModel } = useVehicleModels(vehicleId);
+  const { models } = useModelLibrary();
+  const { reports } = useDamageReports(vehicleId);
+  const { objects } = useCadScene();
+  const [activeLinkId, setActiveLinkId] = useState<string | null>(null);
+  const [controls, setControls] = useState<ViewerControls>(defaultViewerControls);
+  const [newModelId, setNewModelId] = useState('');
+  const [newRole, setNewRole] = useState<VehicleModelRole>('body');
+  const [reportingDamage, setReportingDamage] = useState(false);
+  const [damagePick, setDamagePick] = useState<SurfacePick | null>(null);
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+
+  const activeLink = links.find((link) => link.id === activeLinkId) ?? links[0];
+  const modelOf = (link: VehicleModelLink) => models.find((model) => model.id === link.modelId);
+  const activeModel = activeLink && modelOf(activeLink);
+  // Pinned links show their version, the others whatever was uploaded last
+  const activeVersionId = activeLink?.versionId ?? activeModel?.latestVersionId;
+  const { loaded, error: loadError } = useLibraryVersion(activeLink ? activeVersionId : null);
+
+  // Reports stay on the model across versions, so past damage shows on newer uploads too
+  const modelReports = useMemo(
+    () => reports
+      .filter((report) => report.modelId === activeLink?.modelId)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    [reports, activeLink?.modelId]
+  );
+  const recurrence = useMemo(() => {
+    const size = objects.length > 0 ? computeBounds(objects).getSize(new Vector3()).length() : 0;
+    return recurrenceCounts(modelReports, size * RECURRENCE_RADIUS_RATIO);
+  }, [modelReports, objects]);
+
+  // Each model opens with a fresh camera and no damage mode
+  const loadedVersionId = loaded?.version.id;
+  useEffect(() => {
+    setControls(defaultViewerControls);
+    setReportingDamage(false);
+    setSelectedReportId(null);
+  }, [activeLink?.id, loadedVersionId]);
+
+  const openInWorkspace = () => {
+    if (!loaded) return;
+    // The CAD page reopens the remembered version on load
+    rememberOpenVersion(loaded.version.id);
+    navigate('/cad');
+  };
+
+  const attach = () => {
+    if (!newModelId) return;
+    const link = attachModel({ vehicleId, modelId: newModelId, versionId: null, role: newRole });
+    setActiveLinkId(link.id);
+    setNewModelId('');
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <Card className="lg:col-span-1">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Modèles associés ({links.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {links.length === 0 && (
+            <p className="text-sm text-gray-500">
+              Aucun modèle pour l'instant. Associez-en un depuis la bibliothèque ci-dessous ou depuis la page 3D Modeling.
+            </p>
+          )}
+          <div className="space-y-1">
+            {links.map((link) => {
+              const model = modelOf(link);
+              return (
+                <div
+                  key={link.id}
+                  className={cn(
+                    "flex items-center gap-2 rounded p-2 text-sm cursor-pointer hover:bg-gray-50",
+                    link.id === activeLink?.id && "bg-primary/10"
+                  )}
+                  onClick={() => setActiveLinkId(link.id)}
+                >
+                  <Box className="w-4 h-4 text-gray-400 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{model?.name ?? 'Modèle introuvable'}</p>
+                    <p className="text-xs text-gray-500">
+                      {VEHICLE_MODEL_ROLES[link.role].fleetLabel} · {link.versionId ? 'version figée' : 'dernière version'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    title="Dissocier du véhicule"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      detachModel(link.id);
+                    }}
+                  >
+                    <Unlink className="w-3 h-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-xs font-medium text-gray-500">Associer depuis la bibliothèque</p>
+            <Select value={newModelId} onValueChange={setNewModelId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder={models.length > 0 ? 'Choisir un modèle' : 'La bibliothèque est vide'} />
+              </SelectTrigger>
+              <SelectContent>
+                {models.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newRole} onValueChange={(value) => setNewRole(value as VehicleModelRole)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VEHICLE_MODEL_ROLES) as VehicleModelRole[]).map((key) => (
+                  <SelectItem key={key} value={key}>{VEHICLE_MODEL_ROLES[key].fleetLabel}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="w-full" disabled={!newModelId} onClick={attach}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Associer
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-3">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              {activeModel?.name ?? 'Aperçu 3D'}
+              {loaded && <Badge variant="outline">v{loaded.version.version}</Badge>}
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button
+                variant={reportingDamage ? 'default' : 'outline'}
+                size="sm"
+                disabled={!loaded}
+                title="Cliquez sur le modèle à l'endroit du dommage"
+                onClick={() => setReportingDamage(!reportingDamage)}
+              >
+                <MapPin className="w-4 h-4 mr-2" />
+                Signaler un dommage
+              </Button>
+              <Button variant="outline" size="sm" disabled={!loaded} onClick={openInWorkspace}>
+                <ExternalLink className="w-4 h-4 mr-2" />
+                Ouvrir dans 3D Modeling
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="h-[32rem]">
+          {loaded ? (
+            <CADViewer
+              file={loaded.file}
+              cachedScene={loaded.cache}
+              controls={controls}
+              onControlsChange={setControls}
+              onSurfacePick={reportingDamage ? setDamagePick : undefined}
+            >
+              <DamagePins
+                reports={modelReports}
+                recurrence={recurrence}
+                selectedId={selectedReportId}
+                onSelect={setSelectedReportId}
+              />
+            </CADViewer>
+          ) : (
+            <div className="flex h-full items-center justify-center rounded-lg bg-gray-50 text-sm text-gray-500">
+              {loadError ?? (activeLink
+                ? activeVersionId
+                  ? <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                  : 'Ce modèle n\'est plus dans la bibliothèque de modèles'
+                : 'Associez un modèle pour voir ce véhicule en 3D')}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {activeLink && (
+        <Card className="lg:col-span-4">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Historique des dommages ({modelReports.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DamageHistory
+              reports={modelReports}
+              recurrence={recurrence}
+              selectedId={selectedReportId}
+              onSelect={setSelectedReportId}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {activeLink && (
+        <DamageReportDialog
+          pick={damagePick}
+          onClose={() => setDamagePick(null)}
+          vehicle={vehicle}
+          modelId={activeLink.modelId}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,328 @@
+import * as React from "react"
+
+import type {
+  RhinoBlock,
+  RhinoDocumentInfo,
+  RhinoLayer,
+  RhinoMaterial,
+  RhinoObject,
+  RhinoView,
+  SkippedObjects,
+} from "@/services/rhinoCompute"
+
+// The model currently open in the CAD viewer, shared between the viewer and its side panels
+
+type Action =
+  | {
+      type: "LOAD_START"
+    }
+  | {
+      type: "LOAD_FINISH"
+      // Meshing options the objects were tessellated with; null for mesh formats
+      meshingKey: string | null
+    }
+  | {
+      type: "REMESH_START"
+    }
+  | {
+      type: "SET_DOCUMENT"
+      info: RhinoDocumentInfo
+    }
+  | {
+      type: "ADD_OBJECTS"
+      objects: RhinoObject[]
+    }
+  | {
+      type: "SET_OBJECTS"
+      objects: RhinoObject[]
+    }
+  | {
+      type: "SET_BLOCKS"
+      blocks: RhinoBlock[]
+    }
+  | {
+      type: "SET_SKIPPED"
+      skipped: SkippedObjects
+    }
+  | {
+      type: "ASSIGN_MATERIAL"
+      objectIds: string[]
+      // null restores the assignment from the file
+      materialIndex: number | null
+    }
+  | {
+      type: "TOGGLE_LAYER"
+      layerIndex: number
+    }
+  | {
+      type: "SET_HIDDEN_LAYERS"
+      hiddenLayers: number[]
+    }
+  | {
+      type: "SELECT_OBJECT"
+      objectId: string
+      additive: boolean
+    }
+  | {
+      type: "CLEAR_SELECTION"
+    }
+  | {
+      type: "HOVER_OBJECT"
+      objectId: string | null
+    }
+
+interface State {
+  layers: RhinoLayer[]
+  materials: RhinoMaterial[]
+  unitSystem: string
+  // Absolute tolerance in model units, when the file has one
+  tolerance: number | null
+  // Cameras saved in the file
+  views: RhinoView[]
+  objects: RhinoObject[]
+  // Block definitions shared by the instance objects
+  blocks: RhinoBlock[]
+  // Objects the viewer could not display, counted per object type
+  skipped: SkippedObjects
+  // Material indices assigned in the viewer, by object id; they win over the file's assignment
+  materialOverrides: Record<string, number>
+  hiddenLayers: number[]
+  selectedIds: string[]
+  hoveredId: string | null
+  // False while the objects are still streaming in or being re-meshed, so they are incomplete or stale
+  loaded: boolean
+  // Meshing options of the objects once loaded; null for mesh formats
+  meshingKey: string | null
+}
+
+const initialState: State = {
+  layers: [],
+  materials: [],
+  unitSystem: "None",
+  tolerance: null,
+  views: [],
+  objects: [],
+  blocks: [],
+  skipped: {},
+  materialOverrides: {},
+  hiddenLayers: [],
+  selectedIds: [],
+  hoveredId: null,
+  loaded: false,
+  meshingKey: null,
+}
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "LOAD_START":
+      return initialState
+
+    case "LOAD_FINISH":
+      return { ...state, loaded: true, meshingKey: action.meshingKey }
+
+    case "REMESH_START":
+      return state.loaded ? { ...state, loaded: false } : state
+
+    case "SET_DOCUMENT":
+      return {
+        ...state,
+        layers: action.info.layers,
+        materials: action.info.materials,
+        unitSystem: action.info.unitSystem,
+        // Scenes cached before tolerances or views were read have neither
+        tolerance: action.info.tolerance ?? null,
+        views: action.info.views ?? [],
+        hiddenLayers: action.info.layers
+          .filter((layer) => !layer.visible)
+          .map((layer) => layer.index),
+      }
+
+    case "ADD_OBJECTS":
+      return {
+        ...state,
+        objects: [...state.objects, ...action.objects],
+      }
+
+    case "SET_OBJECTS":
+      return {
+        ...state,
+        objects: action.objects,
+      }
+
+    case "SET_BLOCKS":
+      return {
+        ...state,
+        blocks: action.blocks,
+      }
+
+    case "SET_SKIPPED":
+      return {
+        ...state,
+        skipped: action.skipped,
+      }
+
+    case "ASSIGN_MATERIAL": {
+      const materialOverrides = { ...state.materialOverrides }
+      for (const objectId of action.objectIds) {
+        if (action.materialIndex === null) {
+          delete materialOverrides[objectId]
+        } else {
+          materialOverrides[objectId] = action.materialIndex
+        }
+      }
+      return { ...state, materialOverrides }
+    }
+
+    case "TOGGLE_LAYER":
+      return {
+        ...state,
+        hiddenLayers: state.hiddenLayers.includes(action.layerIndex)
+          ? state.hiddenLayers.filter((index) => index !== action.layerIndex)
+          : [...state.hiddenLayers, action.layerIndex],
+      }
+
+    case "SET_HIDDEN_LAYERS":
+      return {
+        ...state,
+        hiddenLayers: action.hiddenLayers,
+      }
+
+    case "SELECT_OBJECT": {
+      // Shift-click toggles the object in the selection, a plain click replaces it
+      if (!action.additive) {
+        return { ...state, selectedIds: [action.objectId] }
+      }
+      return {
+        ...state,
+        selectedIds: state.selectedIds.includes(action.objectId)
+          ? state.selectedIds.filter((id) => id !== action.objectId)
+          : [...state.selectedIds, action.objectId],
+      }
+    }
+
+    case "CLEAR_SELECTION":
+      return state.selectedIds.length === 0 ? state : { ...state, selectedIds: [] }
+
+    case "HOVER_OBJECT":
+      return state.hoveredId === action.objectId ? state : { ...state, hoveredId: action.objectId }
+  }
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = initialState
+
+function dispatch(action: Action) {
+  const nextState = reducer(memoryState, action)
+  if (nextState === memoryState) return
+  memoryState = nextState
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+// A layer is shown only when it and all of its parents are switched on
+export function getVisibleLayers(state: Pick<State, "layers" | "hiddenLayers">): Set<number> {
+  const byIndex = new Map(state.layers.map((layer) => [layer.index, layer]))
+  const hidden = new Set(state.hiddenLayers)
+  const visible = new Set<number>()
+
+  for (const layer of state.layers) {
+    let current: RhinoLayer | undefined = layer
+    let shown = true
+    while (current) {
+      if (hidden.has(current.index)) {
+        shown = false
+        break
+      }
+      current = current.parentIndex !== null ? byIndex.get(current.parentIndex) : undefined
+    }
+    if (shown) visible.add(layer.index)
+  }
+
+  return visible
+}
+
+// Locked layers (or any locked parent) keep their objects from being picked in the viewport
+export function getLockedLayers(layers: RhinoLayer[]): Set<number> {
+  const byIndex = new Map(layers.map((layer) => [layer.index, layer]))
+  const locked = new Set<number>()
+
+  for (const layer of layers) {
+    let current: RhinoLayer | undefined = layer
+    while (current) {
+      if (current.locked) {
+        locked.add(layer.index)
+        break
+      }
+      current = current.parentIndex !== null ? byIndex.get(current.parentIndex) : undefined
+    }
+  }
+
+  return locked
+}
+
+export function isObjectLocked(object: RhinoObject, lockedLayers: Set<number>) {
+  const layerIndex = object.attributes.layer
+  return typeof layerIndex === "number" && lockedLayers.has(layerIndex)
+}
+
+export function objectLabel(object: RhinoObject) {
+  return object.attributes.name || `${object.instance?.blockName ?? object.objectType} ${object.id.slice(0, 8)}`
+}
+
+// Objects on layers missing from the table (e.g. Compute geometry) are always shown
+export function isObjectVisible(object: RhinoObject, layers: RhinoLayer[], visibleLayers: Set<number>) {
+  const layerIndex = object.attributes.layer
+  if (typeof layerIndex !== "number" || !layers.some((layer) => layer.index === layerIndex)) {
+    return true
+  }
+  return visibleLayers.has(layerIndex)
+}
+
+const sceneActions = {
+  startLoading: () => dispatch({ type: "LOAD_START" }),
+  finishLoading: (meshingKey: string | null) => dispatch({ type: "LOAD_FINISH", meshingKey }),
+  startRemeshing: () => dispatch({ type: "REMESH_START" }),
+  setDocument: (info: RhinoDocumentInfo) => dispatch({ type: "SET_DOCUMENT", info }),
+  addObjects: (objects: RhinoObject[]) => dispatch({ type: "ADD_OBJECTS", objects }),
+  setObjects: (objects: RhinoObject[]) => dispatch({ type: "SET_OBJECTS", objects }),
+  setBlocks: (blocks: RhinoBlock[]) => dispatch({ type: "SET_BLOCKS", blocks }),
+  setSkipped: (skipped: SkippedObjects) => dispatch({ type: "SET_SKIPPED", skipped }),
+  assignMaterial: (objectIds: string[], materialIndex: number | null) =>
+    dispatch({ type: "ASSIGN_MATERIAL", objectIds, materialIndex }),
+  toggleLayer: (layerIndex: number) => dispatch({ type: "TOGGLE_LAYER", layerIndex }),
+  setHiddenLayers: (hiddenLayers: number[]) => dispatch({ type: "SET_HIDDEN_LAYERS", hiddenLayers }),
+  selectObject: (objectId: string, additive = false) =>
+    dispatch({ type: "SELECT_OBJECT", objectId, additive }),
+  clearSelection: () => dispatch({ type: "CLEAR_SELECTION" }),
+  hoverObject: (objectId: string | null) => dispatch({ type: "HOVER_OBJECT", objectId }),
+}
+
+function useCadScene() {
+  const [state, setState] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    // Objects may have streamed in between the first render and subscribing
+    setState(memoryState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  const visibleLayers = React.useMemo(() => getVisibleLayers(state), [state])
+  const lockedLayers = React.useMemo(() => getLockedLayers(state.layers), [state.layers])
+
+  return {
+    ...state,
+    visibleLayers,
+    lockedLayers,
+    ...sceneActions,
+  }
+}
+
+export { useCadScene, sceneActions }
@@ -0,0 +1,84 @@
+import * as React from "react"
+
+import { defaultLoadLimits, type CargoItem, type CargoSpace, type FixedLoad, type LoadLimits } from "@/lib/cargo"
+import { userStorageKey } from "@/lib/session"
+
+// Cargo space, load list and limits of each vehicle, persisted per user in localStorage
+
+export interface CargoPlan {
+  // Null until the cargo space has been picked or fitted on the model
+  space: CargoSpace | null
+  items: CargoItem[]
+  // Fitted equipment, counted in the payload on every trip
+  equipment: FixedLoad[]
+  limits: LoadLimits
+}
+
+export const emptyCargoPlan: CargoPlan = {
+  space: null,
+  items: [],
+  equipment: [],
+  limits: defaultLoadLimits,
+}
+
+type State = Record<string, CargoPlan>
+
+const STORAGE_KEY = userStorageKey("cargoPlans")
+
+function loadPlans(): State {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = loadPlans()
+
+function setPlans(plans: State) {
+  memoryState = plans
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState))
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function updatePlan(vehicleId: string, changes: Partial<CargoPlan>) {
+  setPlans({
+    ...memoryState,
+    [vehicleId]: { ...emptyCargoPlan, ...memoryState[vehicleId], ...changes },
+  })
+}
+
+const cargoPlanActions = { updatePlan }
+
+function useCargoPlan(vehicleId: string) {
+  const [plans, setLocalPlans] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalPlans)
+    setLocalPlans(memoryState)
+    return () => {
+      const index = listeners.indexOf(setLocalPlans)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  // Plans saved before a field existed get its default
+  const plan = React.useMemo(() => ({ ...emptyCargoPlan, ...plans[vehicleId] }), [plans, vehicleId])
+
+  return {
+    plan,
+    updatePlan: React.useCallback(
+      (changes: Partial<CargoPlan>) => updatePlan(vehicleId, changes),
+      [vehicleId]
+    ),
+  }
+}
+
+export { useCargoPlan, cargoPlanActions }
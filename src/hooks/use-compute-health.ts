@@ -0,0 +1,18 @@
+import * as React from "react"
+
+import { rhinoService, type ComputeHealth } from "@/services/rhinoCompute"
+
+// Live Rhino Compute status. Probes the server once if nobody has yet.
+export function useComputeHealth() {
+  const [health, setHealth] = React.useState<ComputeHealth>(rhinoService.getComputeHealth())
+
+  React.useEffect(() => {
+    const unsubscribe = rhinoService.subscribeComputeHealth(setHealth)
+    if (rhinoService.getComputeHealth().status === "unknown") {
+      rhinoService.checkComputeHealth()
+    }
+    return unsubscribe
+  }, [])
+
+  return health
+}
@@ -0,0 +1,69 @@
+import * as React from "react"
+
+import type { DamageReport } from "@/lib/damage"
+import { userStorageKey } from "@/lib/session"
+
+// Damage reports pinned on vehicle models, persisted per user in localStorage
+
+const STORAGE_KEY = userStorageKey("damageReports")
+
+function loadReports(): DamageReport[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+const listeners: Array<(reports: DamageReport[]) => void> = []
+
+let memoryState: DamageReport[] = loadReports()
+
+// Throws when the browser's storage quota is exceeded, typically because of photos
+function setReports(reports: DamageReport[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(reports))
+  memoryState = reports
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function addReport(report: Omit<DamageReport, "id">) {
+  const created: DamageReport = { ...report, id: crypto.randomUUID() }
+  setReports([...memoryState, created])
+  return created
+}
+
+function removeReport(reportId: string) {
+  setReports(memoryState.filter((report) => report.id !== reportId))
+}
+
+const damageReportActions = { addReport, removeReport }
+
+function useDamageReports(vehicleId?: string) {
+  const [reports, setLocalReports] = React.useState<DamageReport[]>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalReports)
+    setLocalReports(memoryState)
+    return () => {
+      const index = listeners.indexOf(setLocalReports)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  const filtered = React.useMemo(
+    () => (vehicleId ? reports.filter((report) => report.vehicleId === vehicleId) : reports),
+    [reports, vehicleId]
+  )
+
+  return {
+    reports: filtered,
+    ...damageReportActions,
+  }
+}
+
+export { useDamageReports, damageReportActions }
@@ -0,0 +1,69 @@
+import * as React from "react"
+
+import type { DensityTable } from "@/lib/mass"
+import { userStorageKey } from "@/lib/session"
+
+// Densities used to estimate part masses, shared by every model and persisted per user in localStorage
+
+const STORAGE_KEY = userStorageKey("densities")
+
+const emptyDensities: DensityTable = { materials: {}, layers: {} }
+
+function loadDensities(): DensityTable {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? { ...emptyDensities, ...JSON.parse(stored) } : emptyDensities
+  } catch {
+    return emptyDensities
+  }
+}
+
+const listeners: Array<(state: DensityTable) => void> = []
+
+let memoryState: DensityTable = loadDensities()
+
+function setDensities(densities: DensityTable) {
+  memoryState = densities
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState))
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+// Null clears the entry
+function withEntry(table: Record<string, number>, key: string, density: number | null) {
+  const { [key]: _removed, ...rest } = table
+  return density === null ? rest : { ...rest, [key]: density }
+}
+
+function setMaterialDensity(materialName: string, density: number | null) {
+  setDensities({ ...memoryState, materials: withEntry(memoryState.materials, materialName, density) })
+}
+
+function setLayerDensity(layerPath: string, density: number | null) {
+  setDensities({ ...memoryState, layers: withEntry(memoryState.layers, layerPath, density) })
+}
+
+const densityActions = { setMaterialDensity, setLayerDensity }
+
+function useDensities() {
+  const [densities, setLocalDensities] = React.useState<DensityTable>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalDensities)
+    setLocalDensities(memoryState)
+    return () => {
+      const index = listeners.indexOf(setLocalDensities)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    densities,
+    ...densityActions,
+  }
+}
+
+export { useDensities, densityActions }
@@ -0,0 +1,53 @@
+import * as React from "react"
+
+import {
+  modelLibrary,
+  versionFile,
+  type CachedScene,
+  type LibraryVersion,
+} from "@/services/modelLibrary"
+
+export interface LoadedVersion {
+  version: LibraryVersion
+  file: File
+  cache: CachedScene | null
+}
+
+// Reads a model library version and its cached scene, ready for the CAD viewer
+function useLibraryVersion(versionId: string | null | undefined) {
+  const [loaded, setLoaded] = React.useState<LoadedVersion | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!versionId) {
+      setLoaded(null)
+      return
+    }
+    let cancelled = false
+    setError(null)
+    Promise.all([modelLibrary.getVersion(versionId), modelLibrary.getScene(versionId)])
+      .then(([version, cache]) => {
+        if (cancelled) return
+        if (!version) {
+          setError("Cette version n'est plus dans la bibliothèque de modèles")
+          setLoaded(null)
+          return
+        }
+        setLoaded({ version, file: versionFile(version), cache: cache ?? null })
+      })
+      .catch((error) => {
+        if (!cancelled) setError(error instanceof Error ? error.message : String(error))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [versionId])
+
+  return {
+    // Never the previous version while the next one loads
+    loaded: loaded && loaded.version.id === versionId ? loaded : null,
+    error,
+  }
+}
+
+export { useLibraryVersion }
@@ -0,0 +1,105 @@
+import * as React from "react"
+
+import { userStorageKey } from "@/lib/session"
+
+// Maintenance interventions, persisted per user in localStorage until there is a backend
+
+export type MaintenanceStatus = "En cours" | "Planifié" | "En attente" | "Terminé"
+
+export interface MaintenanceRecord {
+  id: string
+  // Plate of the vehicle
+  vehicle: string
+  vehicleId?: string
+  issue: string
+  status: MaintenanceStatus
+  // ISO date, e.g. 2024-02-20
+  date: string
+}
+
+const defaultRecords: MaintenanceRecord[] = [
+  {
+    id: "1",
+    vehicle: "ABC-123",
+    issue: "Changement des freins",
+    status: "En cours",
+    date: "2024-02-20",
+  },
+  {
+    id: "2",
+    vehicle: "DEF-456",
+    issue: "Vidange",
+    status: "Planifié",
+    date: "2024-02-25",
+  },
+  {
+    id: "3",
+    vehicle: "GHI-789",
+    issue: "Pneus à changer",
+    status: "En attente",
+    date: "2024-02-22",
+  },
+]
+
+const STORAGE_KEY = userStorageKey("maintenance")
+
+function loadRecords(): MaintenanceRecord[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : defaultRecords
+  } catch {
+    return defaultRecords
+  }
+}
+
+const listeners: Array<(records: MaintenanceRecord[]) => void> = []
+
+let memoryState: MaintenanceRecord[] = loadRecords()
+
+// Persists before updating memory, so a failed write leaves both unchanged
+function setRecords(records: MaintenanceRecord[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records))
+  memoryState = records
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function addRecord(record: Omit<MaintenanceRecord, "id">) {
+  const created: MaintenanceRecord = { ...record, id: crypto.randomUUID() }
+  setRecords([...memoryState, created])
+  return created
+}
+
+function removeRecord(recordId: string) {
+  setRecords(memoryState.filter((record) => record.id !== recordId))
+}
+
+// Interventions that are not finished yet, which new work can be attached to
+export function isOpenRecord(record: MaintenanceRecord) {
+  return record.status !== "Terminé"
+}
+
+const maintenanceActions = { addRecord, removeRecord }
+
+function useMaintenance() {
+  const [records, setLocalRecords] = React.useState<MaintenanceRecord[]>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalRecords)
+    setLocalRecords(memoryState)
+    return () => {
+      const index = listeners.indexOf(setLocalRecords)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    records,
+    ...maintenanceActions,
+  }
+}
+
+export { useMaintenance, maintenanceActions }
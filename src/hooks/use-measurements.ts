@@ -0,0 +1,148 @@
+import * as React from "react"
+
+import type { Measurement, MeasureTool, Point3 } from "@/lib/measure"
+
+// Measurements taken on the model open in the CAD viewer
+
+const POINTS_REQUIRED = { distance: 2, angle: 3 } as const
+
+const KIND_LABELS: Record<Measurement["kind"], string> = {
+  distance: "Distance",
+  angle: "Angle",
+  bbox: "Box",
+}
+
+let count = 0
+
+function genId() {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER
+  return count.toString()
+}
+
+type Action =
+  | { type: "SET_TOOL"; tool: MeasureTool }
+  | { type: "ADD_POINT"; point: Point3 }
+  | { type: "ADD_BOX"; objectId: string; min: Point3; max: Point3 }
+  | { type: "RENAME"; id: string; name: string }
+  | { type: "DELETE"; id: string }
+  | { type: "CANCEL_PENDING" }
+  | { type: "RESET" }
+
+interface State {
+  tool: MeasureTool
+  pending: Point3[]
+  measurements: Measurement[]
+}
+
+const initialState: State = {
+  tool: "none",
+  pending: [],
+  measurements: [],
+}
+
+const nextName = (measurements: Measurement[], kind: Measurement["kind"]) =>
+  `${KIND_LABELS[kind]} ${measurements.filter((m) => m.kind === kind).length + 1}`
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "SET_TOOL":
+      return { ...state, tool: action.tool, pending: [] }
+
+    case "ADD_POINT": {
+      if (state.tool !== "distance" && state.tool !== "angle") return state
+
+      const pending = [...state.pending, action.point]
+      if (pending.length < POINTS_REQUIRED[state.tool]) {
+        return { ...state, pending }
+      }
+
+      const measurement = state.tool === "distance"
+        ? { id: genId(), kind: "distance" as const, name: nextName(state.measurements, "distance"), points: pending as [Point3, Point3] }
+        : { id: genId(), kind: "angle" as const, name: nextName(state.measurements, "angle"), points: pending as [Point3, Point3, Point3] }
+
+      return { ...state, pending: [], measurements: [...state.measurements, measurement] }
+    }
+
+    case "ADD_BOX":
+      return {
+        ...state,
+        measurements: [
+          ...state.measurements,
+          {
+            id: genId(),
+            kind: "bbox",
+            name: nextName(state.measurements, "bbox"),
+            objectId: action.objectId,
+            min: action.min,
+            max: action.max,
+          },
+        ],
+      }
+
+    case "RENAME":
+      return {
+        ...state,
+        measurements: state.measurements.map((m) =>
+          m.id === action.id ? { ...m, name: action.name } : m
+        ),
+      }
+
+    case "DELETE":
+      return {
+        ...state,
+        measurements: state.measurements.filter((m) => m.id !== action.id),
+      }
+
+    case "CANCEL_PENDING":
+      return state.pending.length === 0 ? state : { ...state, pending: [] }
+
+    case "RESET":
+      return initialState
+  }
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = initialState
+
+function dispatch(action: Action) {
+  const nextState = reducer(memoryState, action)
+  if (nextState === memoryState) return
+  memoryState = nextState
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+const measurementActions = {
+  setTool: (tool: MeasureTool) => dispatch({ type: "SET_TOOL", tool }),
+  addPoint: (point: Point3) => dispatch({ type: "ADD_POINT", point }),
+  addBox: (objectId: string, min: Point3, max: Point3) =>
+    dispatch({ type: "ADD_BOX", objectId, min, max }),
+  rename: (id: string, name: string) => dispatch({ type: "RENAME", id, name }),
+  remove: (id: string) => dispatch({ type: "DELETE", id }),
+  cancelPending: () => dispatch({ type: "CANCEL_PENDING" }),
+  reset: () => dispatch({ type: "RESET" }),
+}
+
+function useMeasurements() {
+  const [state, setState] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    setState(memoryState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    ...measurementActions,
+  }
+}
+
+export { useMeasurements, measurementActions }
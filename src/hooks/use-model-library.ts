@@ -0,0 +1,79 @@
+import * as React from "react"
+
+import { vehicleModelActions } from "@/hooks/use-vehicle-models"
+import {
+  modelLibrary,
+  type LibraryModel,
+  type LibraryVersion,
+  type SaveModelInput,
+} from "@/services/modelLibrary"
+
+// The entries of the model library, shared between the save and browse dialogs
+
+interface State {
+  models: LibraryModel[]
+  loading: boolean
+  error: string | null
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = { models: [], loading: false, error: null }
+let loaded = false
+
+function setState(update: Partial<State>) {
+  memoryState = { ...memoryState, ...update }
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+async function refresh() {
+  loaded = true
+  setState({ loading: true, error: null })
+  try {
+    setState({ models: await modelLibrary.listModels(), loading: false })
+  } catch (error) {
+    setState({ loading: false, error: errorMessage(error) })
+  }
+}
+
+async function saveModel(input: SaveModelInput): Promise<{ model: LibraryModel; version: LibraryVersion }> {
+  const saved = await modelLibrary.saveModel(input)
+  await refresh()
+  return saved
+}
+
+async function deleteModel(modelId: string) {
+  await modelLibrary.deleteModel(modelId)
+  vehicleModelActions.removeModelLinks(modelId)
+  await refresh()
+}
+
+const libraryActions = { refresh, saveModel, deleteModel }
+
+function useModelLibrary() {
+  const [state, setLocalState] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalState)
+    setLocalState(memoryState)
+    // The library is read on first use rather than on page load
+    if (!loaded) refresh()
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    ...libraryActions,
+  }
+}
+
+export { useModelLibrary, libraryActions }
@@ -0,0 +1,101 @@
+import * as React from "react"
+
+import type { SectionState } from "@/lib/section"
+import { userStorageKey } from "@/lib/session"
+import type { ViewerControls } from "@/lib/viewer-controls"
+
+// Camera bookmarks saved by name for each model, with the layers shown and the section they
+// were taken with. Persisted per user in localStorage and keyed by the library model, or by
+// the file name for files that were never saved to the library.
+
+export interface NamedView {
+  id: string
+  name: string
+  controls: ViewerControls
+  // Null for views saved without cutting the model
+  section: SectionState | null
+  // Missing on views saved before layers were recorded; those leave the layers as they are
+  hiddenLayers?: number[]
+  createdAt: number
+}
+
+type State = Record<string, NamedView[]>
+
+// Library ids are prefixed so they cannot clash with file names
+export function namedViewsKey(fileName: string, libraryModelId?: string) {
+  return libraryModelId ? `library:${libraryModelId}` : fileName
+}
+
+const STORAGE_KEY = userStorageKey("namedViews")
+
+function loadViews(): State {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = loadViews()
+
+function setViews(views: State) {
+  memoryState = views
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState))
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function saveView(modelKey: string, view: Omit<NamedView, "id" | "createdAt">) {
+  const created: NamedView = { ...view, id: crypto.randomUUID(), createdAt: Date.now() }
+  setViews({ ...memoryState, [modelKey]: [...(memoryState[modelKey] ?? []), created] })
+  return created
+}
+
+function renameView(modelKey: string, viewId: string, name: string) {
+  setViews({
+    ...memoryState,
+    [modelKey]: (memoryState[modelKey] ?? []).map((view) => (view.id === viewId ? { ...view, name } : view)),
+  })
+}
+
+function deleteView(modelKey: string, viewId: string) {
+  setViews({
+    ...memoryState,
+    [modelKey]: (memoryState[modelKey] ?? []).filter((view) => view.id !== viewId),
+  })
+}
+
+// Carries the views of a file over to the library model it was just saved as
+function moveViews(fromKey: string, toKey: string) {
+  if (fromKey === toKey || !memoryState[fromKey]) return
+  const { [fromKey]: moved, ...rest } = memoryState
+  setViews({ ...rest, [toKey]: [...(rest[toKey] ?? []), ...moved] })
+}
+
+const namedViewActions = { saveView, renameView, deleteView, moveViews }
+
+function useNamedViews(modelKey: string) {
+  const [views, setLocalViews] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalViews)
+    setLocalViews(memoryState)
+    return () => {
+      const index = listeners.indexOf(setLocalViews)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    views: views[modelKey] ?? [],
+    ...namedViewActions,
+  }
+}
+
+export { useNamedViews, namedViewActions }
@@ -0,0 +1,141 @@
+import * as React from "react"
+
+import {
+  emptySection,
+  MAX_SECTION_PLANES,
+  type SectionBox,
+  type SectionPlane,
+  type SectionState,
+} from "@/lib/section"
+
+// Section planes and box cutting the model open in the CAD viewer
+
+let count = 0
+
+function genId() {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER
+  return count.toString()
+}
+
+type Action =
+  | { type: "ADD_PLANE"; plane: Omit<SectionPlane, "id"> }
+  | { type: "UPDATE_PLANE"; id: string; changes: Partial<Omit<SectionPlane, "id">> }
+  | { type: "FLIP_PLANE"; id: string }
+  | { type: "DELETE_PLANE"; id: string }
+  | { type: "SET_BOX"; box: SectionBox | null }
+  | { type: "UPDATE_BOX"; changes: Partial<SectionBox> }
+  | { type: "SET_CAPPED"; capped: boolean }
+  | { type: "SET_HANDLES"; showHandles: boolean }
+  | { type: "RESTORE"; section: SectionState }
+  | { type: "RESET" }
+
+interface State extends SectionState {
+  // Gizmos are a viewing aid and not part of saved views
+  showHandles: boolean
+}
+
+const initialState: State = { ...emptySection, showHandles: true }
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "ADD_PLANE":
+      if (state.planes.length >= MAX_SECTION_PLANES) return state
+      return { ...state, planes: [...state.planes, { ...action.plane, id: genId() }] }
+
+    case "UPDATE_PLANE":
+      return {
+        ...state,
+        planes: state.planes.map((plane) => (plane.id === action.id ? { ...plane, ...action.changes } : plane)),
+      }
+
+    case "FLIP_PLANE":
+      return {
+        ...state,
+        planes: state.planes.map((plane) =>
+          plane.id === action.id
+            ? { ...plane, normal: plane.normal.map((value) => -value) as SectionPlane["normal"] }
+            : plane
+        ),
+      }
+
+    case "DELETE_PLANE":
+      return { ...state, planes: state.planes.filter((plane) => plane.id !== action.id) }
+
+    case "SET_BOX":
+      return { ...state, box: action.box }
+
+    case "UPDATE_BOX":
+      return state.box ? { ...state, box: { ...state.box, ...action.changes } } : state
+
+    case "SET_CAPPED":
+      return { ...state, capped: action.capped }
+
+    case "SET_HANDLES":
+      return { ...state, showHandles: action.showHandles }
+
+    case "RESTORE":
+      return {
+        ...state,
+        ...action.section,
+        planes: action.section.planes.slice(0, MAX_SECTION_PLANES).map((plane) => ({ ...plane, id: genId() })),
+      }
+
+    case "RESET":
+      return initialState
+  }
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = initialState
+
+function dispatch(action: Action) {
+  const nextState = reducer(memoryState, action)
+  if (nextState === memoryState) return
+  memoryState = nextState
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+const sectionActions = {
+  addPlane: (plane: Omit<SectionPlane, "id">) => dispatch({ type: "ADD_PLANE", plane }),
+  updatePlane: (id: string, changes: Partial<Omit<SectionPlane, "id">>) =>
+    dispatch({ type: "UPDATE_PLANE", id, changes }),
+  flipPlane: (id: string) => dispatch({ type: "FLIP_PLANE", id }),
+  removePlane: (id: string) => dispatch({ type: "DELETE_PLANE", id }),
+  setBox: (box: SectionBox | null) => dispatch({ type: "SET_BOX", box }),
+  updateBox: (changes: Partial<SectionBox>) => dispatch({ type: "UPDATE_BOX", changes }),
+  setCapped: (capped: boolean) => dispatch({ type: "SET_CAPPED", capped }),
+  setShowHandles: (showHandles: boolean) => dispatch({ type: "SET_HANDLES", showHandles }),
+  restore: (section: SectionState) => dispatch({ type: "RESTORE", section }),
+  reset: () => dispatch({ type: "RESET" }),
+}
+
+// The section to store with a named view
+export function currentSection(): SectionState {
+  const { planes, box, capped } = memoryState
+  return { planes, box, capped }
+}
+
+function useSection() {
+  const [state, setState] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    setState(memoryState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    ...sectionActions,
+  }
+}
+
+export { useSection, sectionActions }
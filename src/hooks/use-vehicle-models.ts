@@ -0,0 +1,101 @@
+import * as React from "react"
+
+import { userStorageKey } from "@/lib/session"
+
+// Library models attached to vehicles, persisted per user in localStorage
+
+export type VehicleModelRole = "body" | "upfit" | "trailer" | "other"
+
+// `fleetLabel` is shown on the (French) vehicle pages, `label` in the CAD workspace
+export const VEHICLE_MODEL_ROLES: Record<VehicleModelRole, { label: string; fleetLabel: string }> = {
+  body: { label: "Body", fleetLabel: "Caisse" },
+  upfit: { label: "Upfit / racking", fleetLabel: "Aménagement / rayonnages" },
+  trailer: { label: "Trailer", fleetLabel: "Remorque" },
+  other: { label: "Other", fleetLabel: "Autre" },
+}
+
+export interface VehicleModelLink {
+  id: string
+  vehicleId: string
+  // Model library entry
+  modelId: string
+  // The version the unit is built to, or null to always show the latest upload
+  versionId: string | null
+  role: VehicleModelRole
+  attachedAt: number
+}
+
+const STORAGE_KEY = userStorageKey("vehicleModels")
+
+function loadLinks(): VehicleModelLink[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+const listeners: Array<(links: VehicleModelLink[]) => void> = []
+
+let memoryState: VehicleModelLink[] = loadLinks()
+
+function setLinks(links: VehicleModelLink[]) {
+  memoryState = links
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState))
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+// Attaching the same model in the same role again updates the pinned version instead of duplicating it
+function attachModel(link: Omit<VehicleModelLink, "id" | "attachedAt">) {
+  const existing = memoryState.find(
+    (entry) => entry.vehicleId === link.vehicleId && entry.modelId === link.modelId && entry.role === link.role
+  )
+  const attached: VehicleModelLink = {
+    ...link,
+    id: existing?.id ?? crypto.randomUUID(),
+    attachedAt: Date.now(),
+  }
+  setLinks([...memoryState.filter((entry) => entry !== existing), attached])
+  return attached
+}
+
+function detachModel(linkId: string) {
+  setLinks(memoryState.filter((entry) => entry.id !== linkId))
+}
+
+// Links whose library entry was deleted are dropped
+function removeModelLinks(modelId: string) {
+  setLinks(memoryState.filter((entry) => entry.modelId !== modelId))
+}
+
+const vehicleModelActions = { attachModel, detachModel, removeModelLinks }
+
+function useVehicleModels(vehicleId?: string) {
+  const [links, setLocalLinks] = React.useState<VehicleModelLink[]>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalLinks)
+    setLocalLinks(memoryState)
+    return () => {
+      const index = listeners.indexOf(setLocalLinks)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  const filtered = React.useMemo(
+    () => (vehicleId ? links.filter((link) => link.vehicleId === vehicleId) : links),
+    [links, vehicleId]
+  )
+
+  return {
+    links: filtered,
+    ...vehicleModelActions,
+  }
+}
+
+export { useVehicleModels, vehicleModelActions }
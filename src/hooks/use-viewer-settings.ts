@@ -0,0 +1,142 @@
+import * as React from "react"
+
+import { userStorageKey } from "@/lib/session"
+import type { LengthUnit } from "@/lib/units"
+import type { MeshingOptions } from "@/services/rhinoCompute"
+
+// Display settings for the 3D viewer, persisted per user in localStorage
+
+export type ShadingMode = "smooth" | "flat"
+
+export type MeshQuality = "draft" | "normal" | "fine" | "custom"
+
+// "display" shades objects in their Rhino display colour, "materials" with their render materials
+export type ColorMode = "display" | "materials"
+
+// Bundled HDR maps in public/environments; "none" lights the model with analytic lights only
+export type EnvironmentPreset = "studio" | "outdoor" | "neutral" | "none"
+
+export interface ViewerSettings {
+  showGrid: boolean
+  wireframe: boolean
+  xray: boolean
+  opacity: number
+  shading: ShadingMode
+  colorMode: ColorMode
+  background: string
+  environment: EnvironmentPreset
+  // Presentation effects, off by default because they cost frame rate on large models
+  ambientOcclusion: boolean
+  shadows: boolean
+  // Unit for lengths on the CAD page; "model" keeps the file's own
+  displayUnit: LengthUnit
+  // Tessellation of surfaces without a usable render mesh
+  meshQuality: MeshQuality
+  useCachedMeshes: boolean
+  // Only used by the "custom" quality
+  customAngleTolerance: number
+  customMaxEdgeLength: number
+}
+
+export const BACKGROUND_PRESETS = [
+  { label: "Light", value: "#f9fafb" },
+  { label: "White", value: "#ffffff" },
+  { label: "Slate", value: "#334155" },
+  { label: "Dark", value: "#111827" },
+]
+
+export const ENVIRONMENT_PRESETS: Array<{ label: string; value: EnvironmentPreset }> = [
+  { label: "Studio", value: "studio" },
+  { label: "Outdoor", value: "outdoor" },
+  { label: "Neutral", value: "neutral" },
+  { label: "None", value: "none" },
+]
+
+export const MESH_QUALITY_PRESETS: Record<Exclude<MeshQuality, "custom">, { label: string; angleTolerance: number }> = {
+  draft: { label: "Draft", angleTolerance: 20 },
+  normal: { label: "Normal", angleTolerance: 10 },
+  fine: { label: "Fine", angleTolerance: 3 },
+}
+
+const STORAGE_KEY = userStorageKey("viewerSettings")
+
+export const defaultViewerSettings: ViewerSettings = {
+  showGrid: true,
+  wireframe: false,
+  xray: false,
+  opacity: 100,
+  shading: "smooth",
+  colorMode: "display",
+  background: BACKGROUND_PRESETS[0].value,
+  environment: "studio",
+  ambientOcclusion: false,
+  shadows: false,
+  displayUnit: "model",
+  meshQuality: "normal",
+  useCachedMeshes: true,
+  customAngleTolerance: 10,
+  customMaxEdgeLength: 0,
+}
+
+export function meshingOptions(settings: ViewerSettings): MeshingOptions {
+  if (settings.meshQuality === "custom") {
+    return {
+      useCachedMeshes: settings.useCachedMeshes,
+      angleTolerance: settings.customAngleTolerance,
+      maxEdgeLength: settings.customMaxEdgeLength,
+    }
+  }
+  return {
+    useCachedMeshes: settings.useCachedMeshes,
+    angleTolerance: MESH_QUALITY_PRESETS[settings.meshQuality].angleTolerance,
+    maxEdgeLength: 0,
+  }
+}
+
+function loadSettings(): ViewerSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? { ...defaultViewerSettings, ...JSON.parse(stored) } : defaultViewerSettings
+  } catch {
+    return defaultViewerSettings
+  }
+}
+
+const listeners: Array<(settings: ViewerSettings) => void> = []
+
+let memoryState: ViewerSettings = loadSettings()
+
+function updateViewerSettings(update: Partial<ViewerSettings>) {
+  memoryState = { ...memoryState, ...update }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState))
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function resetViewerSettings() {
+  updateViewerSettings(defaultViewerSettings)
+}
+
+function useViewerSettings() {
+  const [settings, setSettings] = React.useState<ViewerSettings>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setSettings)
+    setSettings(memoryState)
+    return () => {
+      const index = listeners.indexOf(setSettings)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    settings,
+    updateViewerSettings,
+    resetViewerSettings,
+  }
+}
+
+export { useViewerSettings, updateViewerSettings }
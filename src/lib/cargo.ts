@@ -0,0 +1,362 @@
+import type { Point3 } from "@/lib/measure";
+
+// Load planning for a vehicle's cargo space. Packing happens in a local frame measured
+// from the cab wall: u runs towards the rear doors, v from the driver's left side across
+// the vehicle and w upwards.
+
+// Which way the cab is, along the model's horizontal axes
+export type CargoForward = "-x" | "+x" | "-y" | "+y";
+
+export interface CargoSpace {
+  // Axis-aligned box in model coordinates
+  min: Point3;
+  max: Point3;
+  forward: CargoForward;
+}
+
+export interface CargoItem {
+  id: string;
+  name: string;
+  // Centimetres
+  length: number;
+  width: number;
+  height: number;
+  // Kilograms, per unit
+  weight: number;
+  quantity: number;
+  // Only turned about the vertical axis, e.g. "this side up" parcels
+  upright: boolean;
+  // Other boxes may be loaded on top
+  stackable: boolean;
+}
+
+// Equipment built into the vehicle, such as racking or a generator, weighed from its model parts
+export interface FixedLoad {
+  id: string;
+  name: string;
+  // Kilograms
+  weight: number;
+  // Centre of mass in model coordinates
+  position: Point3;
+}
+
+export interface LoadLimits {
+  // Kilograms the vehicle may carry
+  maxPayload: number;
+  // Axle positions in centimetres from the cab wall; the front axle is usually ahead of it
+  frontAxle: number;
+  rearAxle: number;
+  // Kilograms of payload each axle may take on top of the empty vehicle
+  frontAxleMax: number;
+  rearAxleMax: number;
+}
+
+export const defaultLoadLimits: LoadLimits = {
+  maxPayload: 1000,
+  frontAxle: -80,
+  rearAxle: 250,
+  frontAxleMax: 600,
+  rearAxleMax: 900,
+};
+
+// Common loads offered when adding to the list
+export const CARGO_PRESETS: Array<Omit<CargoItem, "id" | "quantity">> = [
+  { name: "Petit colis", length: 40, width: 30, height: 30, weight: 5, upright: false, stackable: true },
+  { name: "Colis moyen", length: 60, width: 40, height: 40, weight: 12, upright: false, stackable: true },
+  { name: "Grand colis", length: 80, width: 60, height: 60, weight: 25, upright: false, stackable: true },
+  { name: "Palette Europe", length: 120, width: 80, height: 100, weight: 250, upright: true, stackable: false },
+  { name: "Caisse à outils", length: 60, width: 35, height: 30, weight: 18, upright: true, stackable: true },
+];
+
+// Colour of each load list line, in the viewer and the list alike
+const CARGO_COLORS = ["#3b82f6", "#22c55e", "#f59e0b", "#a855f7", "#ec4899", "#14b8a6", "#ef4444", "#84cc16"];
+
+export const cargoColor = (index: number) => CARGO_COLORS[index % CARGO_COLORS.length];
+
+export interface PlacedBox {
+  itemId: string;
+  name: string;
+  // Local frame, model units
+  position: Point3;
+  size: Point3;
+  weight: number;
+}
+
+export interface PackingResult {
+  // In loading order
+  placed: PlacedBox[];
+  // Item ids of the units that did not fit, one entry per unit
+  unplaced: string[];
+}
+
+export type CheckStatus = "ok" | "warning" | "error";
+
+export interface LoadCheck {
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface LoadSummary {
+  // Boxes loaded so far, without the equipment
+  weight: number;
+  equipmentWeight: number;
+  // Share of the cargo volume used, 0 to 1
+  fill: number;
+  // Centre of mass in the local frame, model units
+  centerOfMass: Point3 | null;
+  frontAxleLoad: number;
+  rearAxleLoad: number;
+  checks: LoadCheck[];
+}
+
+// Boxes resting on less than this share of their base would tip
+const MIN_SUPPORT = 0.75;
+// A load off the centre line by more than this share of the width is reported
+const MAX_LATERAL_OFFSET = 0.1;
+
+const EPSILON = 1e-6;
+
+const LONGITUDINAL_AXIS: Record<CargoForward, 0 | 1> = { "-x": 0, "+x": 0, "-y": 1, "+y": 1 };
+
+// With Z up, the driver's left is the positive across axis when the cab faces +x or -y
+const LEFT_AT_MAX: Record<CargoForward, boolean> = { "-x": false, "+x": true, "-y": true, "+y": false };
+
+// Size of the cargo space in the local frame
+export function cargoDimensions(space: CargoSpace): Point3 {
+  const along = LONGITUDINAL_AXIS[space.forward];
+  const across = along === 0 ? 1 : 0;
+  return [
+    space.max[along] - space.min[along],
+    space.max[across] - space.min[across],
+    space.max[2] - space.min[2],
+  ];
+}
+
+// A model-space point in the local frame; points ahead of the cab wall get a negative u
+export function toLocalPoint(space: CargoSpace, point: Point3): Point3 {
+  const along = LONGITUDINAL_AXIS[space.forward];
+  const across = along === 0 ? 1 : 0;
+  return [
+    space.forward.startsWith("-") ? point[along] - space.min[along] : space.max[along] - point[along],
+    LEFT_AT_MAX[space.forward] ? space.max[across] - point[across] : point[across] - space.min[across],
+    point[2] - space.min[2],
+  ];
+}
+
+// Model-space bounds of a box placed in the local frame
+export function toModelBox(space: CargoSpace, position: Point3, size: Point3): { min: Point3; max: Point3 } {
+  const along = LONGITUDINAL_AXIS[space.forward];
+  const across = along === 0 ? 1 : 0;
+  const min: Point3 = [0, 0, space.min[2] + position[2]];
+  const max: Point3 = [0, 0, min[2] + size[2]];
+  if (space.forward.startsWith("-")) {
+    min[along] = space.min[along] + position[0];
+    max[along] = min[along] + size[0];
+  } else {
+    max[along] = space.max[along] - position[0];
+    min[along] = max[along] - size[0];
+  }
+  if (LEFT_AT_MAX[space.forward]) {
+    max[across] = space.max[across] - position[1];
+    min[across] = max[across] - size[1];
+  } else {
+    min[across] = space.min[across] + position[1];
+    max[across] = min[across] + size[1];
+  }
+  return { min, max };
+}
+
+function orientations(item: CargoItem, scale: number): Point3[] {
+  const [l, w, h] = [item.length * scale, item.width * scale, item.height * scale];
+  const candidates: Point3[] = item.upright
+    ? [[l, w, h], [w, l, h]]
+    : [[l, w, h], [w, l, h], [l, h, w], [h, l, w], [w, h, l], [h, w, l]];
+  return candidates.filter(
+    (size, index) => candidates.findIndex((other) => other.every((value, axis) => value === size[axis])) === index
+  );
+}
+
+const overlaps = (a: PlacedBox, position: Point3, size: Point3) =>
+  [0, 1, 2].every(
+    (axis) =>
+      a.position[axis] < position[axis] + size[axis] - EPSILON &&
+      position[axis] < a.position[axis] + a.size[axis] - EPSILON
+  );
+
+// Share of the base resting on stackable boxes, or null when something
+// underneath must not be stacked on
+function supportedShare(placed: PlacedBox[], stackable: Map<string, boolean>, position: Point3, size: Point3) {
+  if (position[2] < EPSILON) return 1;
+  let area = 0;
+  for (const box of placed) {
+    if (Math.abs(box.position[2] + box.size[2] - position[2]) > EPSILON) continue;
+    const du = Math.min(box.position[0] + box.size[0], position[0] + size[0]) - Math.max(box.position[0], position[0]);
+    const dv = Math.min(box.position[1] + box.size[1], position[1] + size[1]) - Math.max(box.position[1], position[1]);
+    if (du <= EPSILON || dv <= EPSILON) continue;
+    if (!stackable.get(box.itemId)) return null;
+    area += du * dv;
+  }
+  return area / (size[0] * size[1]);
+}
+
+// Lowers a point onto the floor or the highest box top underneath it
+function dropPoint(placed: PlacedBox[], point: Point3): Point3 {
+  let floor = 0;
+  for (const box of placed) {
+    const top = box.position[2] + box.size[2];
+    const under = [0, 1].every(
+      (axis) => box.position[axis] <= point[axis] + EPSILON && point[axis] < box.position[axis] + box.size[axis] - EPSILON
+    );
+    if (under && top <= point[2] + EPSILON) floor = Math.max(floor, top);
+  }
+  return [point[0], point[1], floor];
+}
+
+// Lexicographic, ignoring rounding noise
+function compareScores(a: Point3, b: Point3): number {
+  for (let axis = 0; axis < 3; axis++) {
+    if (Math.abs(a[axis] - b[axis]) > EPSILON) return a[axis] - b[axis];
+  }
+  return 0;
+}
+
+// Packs the items into the cargo space with the extreme point heuristic: big and heavy
+// units first, each at the free corner closest to the cab wall, then lowest, then leftmost.
+// `unitsPerCm` converts the item dimensions to model units.
+export function packCargo(space: CargoSpace, items: CargoItem[], unitsPerCm: number): PackingResult {
+  const bounds = cargoDimensions(space);
+  const stackable = new Map(items.map((item) => [item.id, item.stackable]));
+  const units = items
+    .flatMap((item) => Array.from({ length: Math.max(0, Math.floor(item.quantity)) }, () => item))
+    .sort(
+      (a, b) =>
+        b.length * b.width * b.height - a.length * a.width * a.height ||
+        b.weight - a.weight
+    );
+
+  const placed: PlacedBox[] = [];
+  const unplaced: string[] = [];
+  let points: Point3[] = [[0, 0, 0]];
+
+  for (const item of units) {
+    let best: { position: Point3; size: Point3; score: Point3 } | null = null;
+
+    for (const size of orientations(item, unitsPerCm)) {
+      for (const position of points) {
+        if (position.some((value, axis) => value + size[axis] > bounds[axis] + EPSILON)) continue;
+        if (placed.some((box) => overlaps(box, position, size))) continue;
+        const support = supportedShare(placed, stackable, position, size);
+        if (support === null || support < MIN_SUPPORT) continue;
+
+        const score: Point3 = [position[0] + size[0], position[2], position[1]];
+        if (!best || compareScores(score, best.score) < 0) best = { position, size, score };
+      }
+    }
+
+    if (!best) {
+      unplaced.push(item.id);
+      continue;
+    }
+
+    const { position, size } = best;
+    placed.push({ itemId: item.id, name: item.name, position, size, weight: item.weight });
+    const corners: Point3[] = [
+      [position[0] + size[0], position[1], position[2]],
+      [position[0], position[1] + size[1], position[2]],
+      [position[0], position[1], position[2] + size[2]],
+    ];
+    // Corners beside a stack also drop to whatever is below them, so gaps on the floor get used
+    corners.push(...corners.slice(0, 2).map((corner) => dropPoint(placed, corner)));
+    points = [...points.filter((point) => point !== position), ...corners].filter(
+      (point, index, all) =>
+        point.every((value, axis) => value < bounds[axis] - EPSILON) &&
+        all.findIndex((other) => other.every((value, axis) => Math.abs(value - point[axis]) < EPSILON)) === index
+    );
+  }
+
+  return { placed, unplaced };
+}
+
+const kg = (value: number) => `${Math.round(value)} kg`;
+
+function limitCheck(label: string, value: number, limit: number): LoadCheck {
+  const status: CheckStatus = value > limit ? "error" : value > limit * 0.9 ? "warning" : "ok";
+  return { label, status, detail: `${kg(value)} / ${kg(limit)}` };
+}
+
+// Weight, balance and axle loads of the boxes loaded so far and the fitted equipment. Axle
+// loads treat the vehicle as a beam resting on its two axles and only count the payload.
+export function summarizeLoad(
+  space: CargoSpace,
+  boxes: PlacedBox[],
+  limits: LoadLimits,
+  unitsPerCm: number,
+  unplacedCount = 0,
+  equipment: FixedLoad[] = []
+): LoadSummary {
+  const dimensions = cargoDimensions(space);
+  const cargoWeight = boxes.reduce((sum, box) => sum + box.weight, 0);
+  const equipmentWeight = equipment.reduce((sum, load) => sum + load.weight, 0);
+  const weight = cargoWeight + equipmentWeight;
+  const volume = boxes.reduce((sum, box) => sum + box.size[0] * box.size[1] * box.size[2], 0);
+  const capacity = dimensions[0] * dimensions[1] * dimensions[2];
+
+  const masses = [
+    ...boxes.map((box) => ({
+      center: box.position.map((value, axis) => value + box.size[axis] / 2) as Point3,
+      weight: box.weight,
+    })),
+    ...equipment.map((load) => ({ center: toLocalPoint(space, load.position), weight: load.weight })),
+  ];
+  let centerOfMass: Point3 | null = null;
+  if (weight > 0) {
+    centerOfMass = [0, 1, 2].map(
+      (axis) => masses.reduce((sum, mass) => sum + mass.center[axis] * mass.weight, 0) / weight
+    ) as Point3;
+  }
+
+  let frontAxleLoad = 0;
+  let rearAxleLoad = 0;
+  const wheelbase = limits.rearAxle - limits.frontAxle;
+  if (centerOfMass && wheelbase > 0) {
+    const along = centerOfMass[0] / unitsPerCm;
+    rearAxleLoad = (weight * (along - limits.frontAxle)) / wheelbase;
+    frontAxleLoad = weight - rearAxleLoad;
+  }
+
+  const checks: LoadCheck[] = [
+    limitCheck("Charge utile", weight, limits.maxPayload),
+    limitCheck("Essieu avant", frontAxleLoad, limits.frontAxleMax),
+    limitCheck("Essieu arrière", rearAxleLoad, limits.rearAxleMax),
+  ];
+  if (frontAxleLoad < 0) {
+    checks.push({ label: "Essieu avant", status: "error", detail: "La charge soulève l'essieu avant" });
+  }
+  if (centerOfMass) {
+    const offset = centerOfMass[1] - dimensions[1] / 2;
+    const share = Math.abs(offset) / dimensions[1];
+    checks.push({
+      label: "Équilibre latéral",
+      status: share > MAX_LATERAL_OFFSET ? "warning" : "ok",
+      detail: share < 0.01 ? "Centré" : `${Math.round(share * 100)} % vers la ${offset < 0 ? "gauche" : "droite"}`,
+    });
+  }
+  if (unplacedCount > 0) {
+    checks.push({
+      label: "Placement",
+      status: "error",
+      detail: `${unplacedCount} unité${unplacedCount > 1 ? "s" : ""} hors du chargement`,
+    });
+  }
+
+  return {
+    weight: cargoWeight,
+    equipmentWeight,
+    fill: capacity > 0 ? volume / capacity : 0,
+    centerOfMass,
+    frontAxleLoad,
+    rearAxleLoad,
+    checks,
+  };
+}
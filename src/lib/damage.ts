@@ -0,0 +1,63 @@
+import type { Point3 } from "@/lib/measure";
+
+export type DamageSeverity = "minor" | "moderate" | "severe";
+
+export const DAMAGE_SEVERITIES: Record<DamageSeverity, { label: string; color: string }> = {
+  minor: { label: "Mineur", color: "#eab308" },
+  moderate: { label: "Modéré", color: "#f97316" },
+  severe: { label: "Grave", color: "#dc2626" },
+};
+
+export interface DamageReport {
+  id: string;
+  vehicleId: string;
+  // Model library entry the pin was placed on
+  modelId: string;
+  // World-space point on the surface and its outward normal
+  position: Point3;
+  normal: Point3;
+  objectId?: string;
+  severity: DamageSeverity;
+  description: string;
+  // Downscaled JPEG data URLs
+  photos: string[];
+  // ISO date the damage was found
+  date: string;
+  reportedBy: string;
+  interventionId: string;
+}
+
+// Photos are stored in localStorage with the report, so they are shrunk first
+const PHOTO_MAX_SIZE = 640;
+const PHOTO_QUALITY = 0.7;
+
+export async function resizePhoto(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL("image/jpeg", PHOTO_QUALITY);
+}
+
+// Number of reports within `radius` of each report, itself included.
+// Zones damaged again and again stand out with a count above one.
+export function recurrenceCounts(reports: DamageReport[], radius: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  const radiusSquared = radius * radius;
+  for (const report of reports) {
+    let count = 0;
+    for (const other of reports) {
+      const dx = report.position[0] - other.position[0];
+      const dy = report.position[1] - other.position[1];
+      const dz = report.position[2] - other.position[2];
+      if (dx * dx + dy * dy + dz * dz <= radiusSquared) count++;
+    }
+    counts.set(report.id, count);
+  }
+  return counts;
+}
+
+export const todayIso = () => new Date().toISOString().slice(0, 10);
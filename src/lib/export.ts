@@ -0,0 +1,303 @@
+import {
+  Group,
+  LineBasicMaterial,
+  LineSegments,
+  Mesh,
+  MeshStandardMaterial,
+  Object3D,
+  Points,
+  PointsMaterial,
+  SRGBColorSpace,
+  type Material
+} from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { OBJExporter } from "three/examples/jsm/exporters/OBJExporter.js";
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js";
+import { strToU8, zipSync } from "three/examples/jsm/libs/fflate.module.js";
+import { objectLabel } from "@/hooks/use-cad-scene";
+import { createBufferGeometry } from "@/lib/geometry";
+import {
+  createSurfaceMaterial,
+  disposeMaterialTextures,
+  loadMaterialTexturesAsync,
+  resolveDisplayColor,
+  resolveMaterialIndex,
+  type MaterialTextures
+} from "@/lib/materials";
+import type {
+  RhinoBlock,
+  RhinoGeometry,
+  RhinoLayer,
+  RhinoMaterial,
+  RhinoObject,
+  RhinoObjectAttributes
+} from "@/services/rhinoCompute";
+
+export type ExportFormat = 'glb' | 'stl' | 'stl-ascii' | 'obj';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; description: string }> = {
+  glb: { label: 'glTF binary (.glb)', description: 'Materials, names and layers' },
+  stl: { label: 'STL binary (.stl)', description: 'Meshes only, for 3D printing' },
+  'stl-ascii': { label: 'STL ASCII (.stl)', description: 'Meshes only, human-readable' },
+  obj: { label: 'OBJ + MTL (.zip)', description: 'Geometry, materials and textures' }
+};
+
+// Everything needed to rebuild the objects outside the viewer
+export interface ExportSource {
+  objects: RhinoObject[];
+  blocks: RhinoBlock[];
+  layers: RhinoLayer[];
+  materials: RhinoMaterial[];
+  // Material indices assigned in the viewer, by object id
+  materialOverrides: Record<string, number>;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+}
+
+interface Appearance {
+  color: string;
+  materialIndex: number;
+}
+
+// Rhino is Z-up; glTF and OBJ are Y-up by convention. STL keeps Rhino's axes,
+// which is what slicers expect.
+const Y_UP_FORMATS: ExportFormat[] = ['glb', 'obj'];
+
+export async function exportModel(source: ExportSource, format: ExportFormat, baseName: string): Promise<ExportResult> {
+  const textures = await Promise.all(
+    source.materials.map((material) => loadMaterialTexturesAsync(material).catch((): MaterialTextures => ({})))
+  );
+  const scene = buildExportScene(source, textures, baseName);
+
+  if (Y_UP_FORMATS.includes(format)) {
+    scene.rotation.x = -Math.PI / 2;
+  }
+  scene.updateMatrixWorld(true);
+
+  try {
+    switch (format) {
+      case 'glb': {
+        const glb = await new GLTFExporter().parseAsync(scene, { binary: true });
+        return { blob: new Blob([glb as ArrayBuffer], { type: 'model/gltf-binary' }), fileName: `${baseName}.glb` };
+      }
+      case 'stl':
+      case 'stl-ascii': {
+        const binary = format === 'stl';
+        const stl = binary
+          ? new STLExporter().parse(scene, { binary: true })
+          : new STLExporter().parse(scene);
+        return {
+          blob: new Blob([stl], { type: binary ? 'application/octet-stream' : 'model/stl' }),
+          fileName: `${baseName}.stl`
+        };
+      }
+      case 'obj':
+        return { blob: exportObjArchive(scene, source.materials, baseName), fileName: `${baseName}.zip` };
+    }
+  } finally {
+    disposeExportScene(scene);
+    textures.forEach(disposeMaterialTextures);
+  }
+}
+
+export function downloadBlob({ blob, fileName }: ExportResult) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// One node per layer (nested like the layer tree) holding one named node per object.
+// Block instances become groups with their parts as children.
+function buildExportScene(source: ExportSource, textures: MaterialTextures[], baseName: string): Group {
+  const { objects, blocks, layers, materials, materialOverrides } = source;
+  const root = new Group();
+  root.name = baseName;
+
+  const layerNodes = new Map<number, Object3D>();
+  const layerNode = (layerIndex: number | undefined): Object3D => {
+    const layer = layers.find((l) => l.index === layerIndex);
+    if (!layer) return root;
+    let node = layerNodes.get(layer.index);
+    if (!node) {
+      node = new Group();
+      node.name = layer.name;
+      layerNode(layer.parentIndex ?? undefined).add(node);
+      layerNodes.set(layer.index, node);
+    }
+    return node;
+  };
+
+  // Materials are shared between nodes: render materials by index, display colours by colour
+  const sharedMaterials = new Map<string, Material>();
+  const shared = (key: string, create: () => Material) => {
+    let material = sharedMaterials.get(key);
+    if (!material) {
+      material = create();
+      sharedMaterials.set(key, material);
+    }
+    return material;
+  };
+  const surfaceMaterial = ({ color, materialIndex }: Appearance) => {
+    if (materialIndex >= 0 && materials[materialIndex]) {
+      return shared(`material:${materialIndex}`, () => {
+        const material = createSurfaceMaterial(materials[materialIndex], textures[materialIndex], SURFACE_OPTIONS);
+        material.userData.materialIndex = materialIndex;
+        return material;
+      });
+    }
+    // Objects on Rhino's default material keep their display colour
+    return shared(`surface:${color}`, () => {
+      const material = createSurfaceMaterial(undefined, undefined, SURFACE_OPTIONS);
+      material.color.set(color);
+      material.name = `Display ${color}`;
+      return material;
+    });
+  };
+
+  const createNode = (geometry: RhinoGeometry, name: string, appearance: Appearance): Object3D | null => {
+    let node: Object3D;
+    switch (geometry.kind) {
+      case 'mesh':
+        node = new Mesh(createBufferGeometry(geometry), surfaceMaterial(appearance));
+        break;
+      case 'curve':
+        node = new LineSegments(
+          createBufferGeometry(geometry),
+          shared(`line:${appearance.color}`, () => new LineBasicMaterial({ color: appearance.color }))
+        );
+        break;
+      case 'points':
+        node = new Points(
+          createBufferGeometry(geometry),
+          shared(`points:${appearance.color}`, () => new PointsMaterial({ color: appearance.color, size: 1 }))
+        );
+        break;
+      case 'annotation':
+        // Labels survive as empty, named nodes at their anchor
+        node = new Object3D();
+        node.position.fromArray(geometry.positions);
+        break;
+      default:
+        return null;
+    }
+    node.name = name;
+    return node;
+  };
+
+  const appearanceOf = (attributes: RhinoObjectAttributes, parent?: Appearance, override?: number): Appearance => {
+    const materialIndex = override ?? resolveMaterialIndex(attributes, layers, parent?.materialIndex);
+    return {
+      materialIndex,
+      color: resolveDisplayColor(attributes, layers, materials, materialIndex, parent?.color)
+    };
+  };
+
+  const blocksById = new Map(blocks.map((block) => [block.id, block]));
+
+  for (const object of objects) {
+    const appearance = appearanceOf(object.attributes, undefined, materialOverrides[object.id]);
+    let node: Object3D | null;
+
+    if (object.instance) {
+      const block = blocksById.get(object.instance.blockId);
+      if (!block) continue;
+      node = new Group();
+      node.name = objectLabel(object);
+      setMatrix(node, object.instance.transform);
+      block.parts.forEach((part, i) => {
+        const partNode = createNode(part.geometry, `${block.name} ${i + 1}`, appearanceOf(part.attributes, appearance));
+        if (!partNode) return;
+        // Nested placements are baked into the part's matrix
+        setMatrix(partNode, part.transform);
+        node.add(partNode);
+      });
+    } else {
+      node = createNode(object.geometry, objectLabel(object), appearance);
+    }
+
+    if (node) {
+      node.userData = { ...object.attributes.userStrings, rhinoId: object.id };
+      layerNode(object.attributes.layer).add(node);
+    }
+  }
+
+  return root;
+}
+
+const SURFACE_OPTIONS = { opacity: 1, wireframe: false, flatShading: false };
+
+// Nodes keep the exact Rhino matrix rather than a decomposed position/rotation/scale
+function setMatrix(node: Object3D, transform: number[]) {
+  node.matrixAutoUpdate = false;
+  node.matrix.fromArray(transform);
+}
+
+function disposeExportScene(scene: Object3D) {
+  const materials = new Set<Material>();
+  scene.traverse((node) => {
+    if (node instanceof Mesh || node instanceof LineSegments || node instanceof Points) {
+      node.geometry.dispose();
+      materials.add(node.material as Material);
+    }
+  });
+  materials.forEach((material) => material.dispose());
+}
+
+// OBJExporter writes geometry only; the MTL file and embedded textures are added here
+function exportObjArchive(scene: Object3D, materials: RhinoMaterial[], baseName: string): Blob {
+  const used = new Set<MeshStandardMaterial>();
+  scene.traverse((node) => {
+    if (node instanceof Mesh) used.add(node.material as MeshStandardMaterial);
+  });
+
+  // MTL names must be unique and cannot contain whitespace or '#', which starts a comment
+  const names = new Set<string>();
+  const files: Record<string, Uint8Array> = {};
+  const mtl: string[] = [];
+
+  for (const material of used) {
+    let name = material.name.replace(/[^\w.-]+/g, '_') || 'material';
+    for (let i = 2; names.has(name); i++) name = `${name.replace(/_\d+$/, '')}_${i}`;
+    names.add(name);
+    material.name = name;
+
+    const rgb = { r: 0, g: 0, b: 0 };
+    material.color.getRGB(rgb, SRGBColorSpace);
+    mtl.push(
+      `newmtl ${name}`,
+      `Kd ${rgb.r.toFixed(4)} ${rgb.g.toFixed(4)} ${rgb.b.toFixed(4)}`,
+      `Ns ${((1 - material.roughness) * 1000).toFixed(1)}`,
+      `d ${material.opacity.toFixed(4)}`
+    );
+
+    const texture = materials[material.userData.materialIndex]?.textures.diffuse;
+    if (texture?.url) {
+      const textureName = `textures/${texture.fileName.split(/[\\/]/).pop()}`;
+      files[textureName] = dataUrlToBytes(texture.url);
+      mtl.push(`map_Kd ${textureName}`);
+    }
+    mtl.push('');
+  }
+
+  const obj = `mtllib ${baseName}.mtl\n${new OBJExporter().parse(scene)}`;
+  files[`${baseName}.obj`] = strToU8(obj);
+  files[`${baseName}.mtl`] = strToU8(mtl.join('\n'));
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+}
+
+function dataUrlToBytes(url: string): Uint8Array {
+  const binary = atob(url.slice(url.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
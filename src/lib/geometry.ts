@@ -0,0 +1,46 @@
+import { Box3, BufferAttribute, BufferGeometry, Vector3 } from "three";
+import type { RhinoGeometry, RhinoObject } from "@/services/rhinoCompute";
+
+// Wraps the typed arrays of a RhinoGeometry without copying them.
+// Callers own the result and must dispose() it.
+export function createBufferGeometry(rhinoGeometry: RhinoGeometry): BufferGeometry {
+  const geometry = new BufferGeometry();
+
+  geometry.setAttribute('position', new BufferAttribute(rhinoGeometry.positions, 3));
+  if (rhinoGeometry.indices.length > 0) {
+    geometry.setIndex(new BufferAttribute(rhinoGeometry.indices, 1));
+  }
+
+  // Only shaded meshes need normals; curves and points are drawn unlit
+  if (rhinoGeometry.normals) {
+    geometry.setAttribute('normal', new BufferAttribute(rhinoGeometry.normals, 3));
+  } else if (rhinoGeometry.kind === 'mesh') {
+    geometry.computeVertexNormals();
+  }
+
+  if (rhinoGeometry.colors) {
+    geometry.setAttribute('color', new BufferAttribute(rhinoGeometry.colors, 4));
+  }
+
+  if (rhinoGeometry.uvs) {
+    geometry.setAttribute('uv', new BufferAttribute(rhinoGeometry.uvs, 2));
+  }
+
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+// World-space bounds of the given objects, straight from their vertex buffers
+export function computeBounds(objects: RhinoObject[]): Box3 {
+  const bounds = new Box3();
+  const point = new Vector3();
+
+  for (const object of objects) {
+    const positions = object.geometry.positions;
+    for (let i = 0; i < positions.length; i += 3) {
+      bounds.expandByPoint(point.set(positions[i], positions[i + 1], positions[i + 2]));
+    }
+  }
+
+  return bounds;
+}
@@ -0,0 +1,227 @@
+import { Matrix4, Vector3 } from "three";
+import { resolveMaterialIndex } from "@/lib/materials";
+import type { Point3 } from "@/lib/measure";
+import type { RhinoBlock, RhinoGeometry, RhinoLayer, RhinoMaterial, RhinoObject } from "@/services/rhinoCompute";
+
+// Physical properties of the parts in the viewer, from their display meshes. Volumes come
+// from the divergence theorem, so they are only exact for closed, consistently oriented meshes.
+
+export interface MassProperties {
+  // Model units squared and cubed
+  area: number;
+  volume: number;
+  // Of the enclosed volume for closed meshes, of the surface otherwise
+  centroid: Point3 | null;
+  // Every edge is shared by exactly two triangles running it in opposite directions
+  closed: boolean;
+}
+
+// Densities in kg/m³, by material name and by layer full path, so they carry over between files
+export interface DensityTable {
+  materials: Record<string, number>;
+  layers: Record<string, number>;
+}
+
+export const DENSITY_PRESETS: Array<{ name: string; density: number }> = [
+  { name: "Steel", density: 7850 },
+  { name: "Stainless steel", density: 8000 },
+  { name: "Aluminium", density: 2700 },
+  { name: "Glass", density: 2500 },
+  { name: "Plywood", density: 600 },
+  { name: "HDPE", density: 950 },
+  { name: "ABS", density: 1050 },
+  { name: "Rubber", density: 1200 },
+];
+
+// Vertices closer than this share of the mesh size are welded before checking edges
+const WELD_TOLERANCE = 1e-6;
+
+function meshProperties(geometry: RhinoGeometry, matrix: Matrix4 | null): MassProperties {
+  const { positions, indices } = geometry;
+  const vertexCount = positions.length / 3;
+  const points: Vector3[] = [];
+  for (let i = 0; i < vertexCount; i++) {
+    const point = new Vector3(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+    points.push(matrix ? point.applyMatrix4(matrix) : point);
+  }
+
+  // Faces of a Brep are meshed separately, so their seams only meet by position
+  let size = 0;
+  for (const point of points) size = Math.max(size, Math.abs(point.x), Math.abs(point.y), Math.abs(point.z));
+  const tolerance = Math.max(size, 1) * WELD_TOLERANCE;
+  const welded = new Map<string, number>();
+  const vertexIds = points.map((point) => {
+    const key = `${Math.round(point.x / tolerance)},${Math.round(point.y / tolerance)},${Math.round(point.z / tolerance)}`;
+    let id = welded.get(key);
+    if (id === undefined) {
+      id = welded.size;
+      welded.set(key, id);
+    }
+    return id;
+  });
+
+  let area = 0;
+  let volume = 0;
+  const volumeMoment = new Vector3();
+  const areaMoment = new Vector3();
+  // Per undirected edge: how many triangles use it, and the sum of their directions
+  const edges = new Map<string, { count: number; direction: number }>();
+  const cross = new Vector3();
+  const ab = new Vector3();
+  const ac = new Vector3();
+  const sum = new Vector3();
+
+  for (let t = 0; t + 2 < indices.length; t += 3) {
+    const [ia, ib, ic] = [indices[t], indices[t + 1], indices[t + 2]];
+    const [a, b, c] = [points[ia], points[ib], points[ic]];
+    cross.crossVectors(ab.subVectors(b, a), ac.subVectors(c, a));
+    const triangleArea = cross.length() / 2;
+    if (triangleArea === 0) continue;
+
+    sum.copy(a).add(b).add(c);
+    area += triangleArea;
+    areaMoment.addScaledVector(sum, triangleArea / 3);
+    // Signed volume of the tetrahedron from the origin to the triangle
+    const tetrahedron = a.dot(cross.crossVectors(b, c)) / 6;
+    volume += tetrahedron;
+    volumeMoment.addScaledVector(sum, tetrahedron / 4);
+
+    const ids = [vertexIds[ia], vertexIds[ib], vertexIds[ic]];
+    for (let e = 0; e < 3; e++) {
+      const from = ids[e];
+      const to = ids[(e + 1) % 3];
+      const key = from < to ? `${from},${to}` : `${to},${from}`;
+      const edge = edges.get(key) ?? { count: 0, direction: 0 };
+      edge.count += 1;
+      edge.direction += from < to ? 1 : -1;
+      edges.set(key, edge);
+    }
+  }
+
+  const closed = edges.size > 0 && [...edges.values()].every((edge) => edge.count === 2 && edge.direction === 0);
+  const centroid = closed && Math.abs(volume) > 0
+    ? volumeMoment.divideScalar(volume)
+    : area > 0 ? areaMoment.divideScalar(area) : null;
+
+  return {
+    area,
+    // Meshes with inward normals give a negative volume
+    volume: Math.abs(volume),
+    centroid: centroid ? [centroid.x, centroid.y, centroid.z] : null,
+    closed,
+  };
+}
+
+// Sums parts of one object; it is closed when all of its parts are
+function sumParts(parts: MassProperties[]): MassProperties | null {
+  if (parts.length === 0) return null;
+  const area = parts.reduce((total, part) => total + part.area, 0);
+  const volume = parts.reduce((total, part) => total + part.volume, 0);
+  const closed = parts.every((part) => part.closed);
+  return {
+    area,
+    volume,
+    centroid: weightedCentroid(parts.map((part) => ({ centroid: part.centroid, weight: closed ? part.volume : part.area }))),
+    closed,
+  };
+}
+
+function weightedCentroid(entries: Array<{ centroid: Point3 | null; weight: number }>): Point3 | null {
+  const total = entries.reduce((sum, entry) => sum + (entry.centroid ? entry.weight : 0), 0);
+  if (total <= 0) return null;
+  return [0, 1, 2].map(
+    (axis) => entries.reduce((sum, entry) => sum + (entry.centroid ? entry.centroid[axis] * entry.weight : 0), 0) / total
+  ) as Point3;
+}
+
+// Objects keep their geometry until the model is re-meshed, which replaces them
+const cache = new WeakMap<RhinoObject, MassProperties | null>();
+
+// Properties of a mesh object or a block instance's mesh parts; null for curves, points and labels
+export function objectMassProperties(object: RhinoObject, blocks: RhinoBlock[]): MassProperties | null {
+  if (cache.has(object)) return cache.get(object);
+
+  let properties: MassProperties | null = null;
+  if (object.instance) {
+    const block = blocks.find((entry) => entry.id === object.instance.blockId);
+    const placement = new Matrix4().fromArray(object.instance.transform);
+    properties = sumParts(
+      (block?.parts ?? [])
+        .filter((part) => part.geometry.kind === "mesh")
+        .map((part) => meshProperties(part.geometry, placement.clone().multiply(new Matrix4().fromArray(part.transform))))
+    );
+  } else if (object.geometry.kind === "mesh") {
+    properties = meshProperties(object.geometry, null);
+  }
+
+  cache.set(object, properties);
+  return properties;
+}
+
+// Density of an object's material, else of its layer or the closest parent layer that has one
+export function objectDensity(
+  object: RhinoObject,
+  layers: RhinoLayer[],
+  materials: RhinoMaterial[],
+  materialOverrides: Record<string, number>,
+  densities: DensityTable
+): number | null {
+  const materialIndex = materialOverrides[object.id] ?? resolveMaterialIndex(object.attributes, layers);
+  const material = materials.find((entry) => entry.index === materialIndex);
+  if (material && densities.materials[material.name] !== undefined) return densities.materials[material.name];
+
+  let layer = layers.find((entry) => entry.index === object.attributes.layer);
+  while (layer) {
+    if (densities.layers[layer.fullPath] !== undefined) return densities.layers[layer.fullPath];
+    const parentIndex = layer.parentIndex;
+    layer = parentIndex !== null ? layers.find((entry) => entry.index === parentIndex) : undefined;
+  }
+  return null;
+}
+
+export interface SelectionMass {
+  area: number;
+  volume: number;
+  // Kilograms; null unless every solid part has a density
+  mass: number | null;
+  // Weighted by mass when known, by volume otherwise
+  centroid: Point3 | null;
+  // Objects whose mesh is open, so their volume is unreliable
+  openCount: number;
+  // Objects without a mesh, e.g. curves
+  skippedCount: number;
+}
+
+// Totals over several objects. `density` returns kg/m³ for an object, or null when unknown.
+export function combineMassProperties(
+  objects: RhinoObject[],
+  blocks: RhinoBlock[],
+  metersPerUnit: number,
+  density: (object: RhinoObject) => number | null
+): SelectionMass {
+  const solids = objects
+    .map((object) => ({ object, properties: objectMassProperties(object, blocks) }))
+    .filter((entry): entry is { object: RhinoObject; properties: MassProperties } => entry.properties !== null);
+
+  const masses = solids.map(({ object, properties }) => {
+    const value = density(object);
+    return value === null ? null : properties.volume * metersPerUnit ** 3 * value;
+  });
+  const mass = masses.length > 0 && masses.every((value) => value !== null)
+    ? masses.reduce((total, value) => total + value, 0)
+    : null;
+
+  return {
+    area: solids.reduce((total, { properties }) => total + properties.area, 0),
+    volume: solids.reduce((total, { properties }) => total + properties.volume, 0),
+    mass,
+    centroid: weightedCentroid(
+      solids.map(({ properties }, index) => ({
+        centroid: properties.centroid,
+        weight: mass !== null ? masses[index] : properties.volume,
+      }))
+    ),
+    openCount: solids.filter(({ properties }) => !properties.closed).length,
+    skippedCount: objects.length - solids.length,
+  };
+}
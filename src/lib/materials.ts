@@ -0,0 +1,131 @@
+import { Color, MeshStandardMaterial, RepeatWrapping, SRGBColorSpace, TextureLoader, type Texture } from "three";
+import { colorToHex } from "@/services/rhinoDocument";
+import type { RhinoLayer, RhinoMaterial, RhinoObjectAttributes, RhinoTexture } from "@/services/rhinoCompute";
+
+// Colours Rhino falls back to when an object's layer or material cannot be found
+export const DEFAULT_DISPLAY_COLOR = '#000000';
+export const DEFAULT_MATERIAL_COLOR = '#f5f5f5';
+
+export interface MaterialTextures {
+  map?: Texture;
+  bumpMap?: Texture;
+  alphaMap?: Texture;
+}
+
+export interface SurfaceOptions {
+  // Viewer opacity, multiplied with the material's own
+  opacity: number;
+  wireframe: boolean;
+  flatShading: boolean;
+}
+
+// Render material index of an object, -1 for Rhino's default material.
+// `parentMaterial` is the material of the block instance an object is drawn in.
+export function resolveMaterialIndex(
+  attributes: RhinoObjectAttributes,
+  layers: RhinoLayer[],
+  parentMaterial?: number
+): number {
+  if (attributes.materialSource === 'object') {
+    return attributes.material ?? -1;
+  }
+  if (attributes.materialSource === 'parent' && parentMaterial !== undefined) {
+    return parentMaterial;
+  }
+  return layers.find((layer) => layer.index === attributes.layer)?.material ?? -1;
+}
+
+// Display colour of an object, resolved the way Rhino's object properties describe it
+export function resolveDisplayColor(
+  attributes: RhinoObjectAttributes,
+  layers: RhinoLayer[],
+  materials: RhinoMaterial[],
+  materialIndex: number,
+  parentColor?: string
+): string {
+  switch (attributes.colorSource) {
+    case 'object':
+      return attributes.color ? colorToHex(attributes.color) : DEFAULT_DISPLAY_COLOR;
+    case 'material':
+      return materials[materialIndex]?.diffuseColor ?? DEFAULT_MATERIAL_COLOR;
+    case 'parent':
+      if (parentColor) return parentColor;
+      break;
+  }
+  return layers.find((layer) => layer.index === attributes.layer)?.color ?? DEFAULT_DISPLAY_COLOR;
+}
+
+const configureTexture = (texture: Texture, source: RhinoTexture, isColor: boolean) => {
+  texture.wrapS = RepeatWrapping;
+  texture.wrapT = RepeatWrapping;
+  texture.repeat.set(...source.repeat);
+  texture.offset.set(...source.offset);
+  texture.rotation = source.rotation;
+  if (isColor) texture.colorSpace = SRGBColorSpace;
+  return texture;
+};
+
+// Only embedded images can be loaded; textures that point at files on the author's disk are skipped.
+// Images arrive asynchronously and show up once decoded.
+export function loadMaterialTextures(material: RhinoMaterial, loader = new TextureLoader()): MaterialTextures {
+  const load = (texture: RhinoTexture | undefined, isColor: boolean) =>
+    texture?.url ? configureTexture(loader.load(texture.url), texture, isColor) : undefined;
+
+  return {
+    map: load(material.textures.diffuse, true),
+    bumpMap: load(material.textures.bump, false),
+    alphaMap: load(material.textures.transparency, false)
+  };
+}
+
+// Same as loadMaterialTextures, but resolves once every image is decoded, as exporters need
+export async function loadMaterialTexturesAsync(
+  material: RhinoMaterial,
+  loader = new TextureLoader()
+): Promise<MaterialTextures> {
+  const load = async (texture: RhinoTexture | undefined, isColor: boolean) =>
+    texture?.url ? configureTexture(await loader.loadAsync(texture.url), texture, isColor) : undefined;
+
+  const [map, bumpMap, alphaMap] = await Promise.all([
+    load(material.textures.diffuse, true),
+    load(material.textures.bump, false),
+    load(material.textures.transparency, false)
+  ]);
+  return { map, bumpMap, alphaMap };
+}
+
+export function disposeMaterialTextures(textures: MaterialTextures) {
+  textures.map?.dispose();
+  textures.bumpMap?.dispose();
+  textures.alphaMap?.dispose();
+}
+
+// Physically based materials map directly; classic ones derive roughness from their shine.
+// The caller owns the result and must dispose() it; textures stay owned by the caller too.
+export function createSurfaceMaterial(
+  material: RhinoMaterial | undefined,
+  textures: MaterialTextures | undefined,
+  { opacity, wireframe, flatShading }: SurfaceOptions
+): MeshStandardMaterial {
+  const pbr = material?.pbr;
+  const baseColor = pbr?.baseColor ?? material?.diffuseColor ?? DEFAULT_MATERIAL_COLOR;
+  const materialOpacity = (pbr ? pbr.opacity : 1 - (material?.transparency ?? 0)) * opacity;
+  const transparent = materialOpacity < 1 || !!textures?.alphaMap;
+
+  return new MeshStandardMaterial({
+    name: material?.name ?? 'Default',
+    // Rhino's bitmap texture replaces the diffuse colour, while three multiplies the two
+    color: new Color(textures?.map ? '#ffffff' : baseColor),
+    emissive: new Color(material?.emissionColor ?? '#000000'),
+    metalness: pbr?.metallic ?? 0,
+    roughness: pbr?.roughness ?? 1 - (material?.shine ?? 0) * 0.9,
+    map: textures?.map ?? null,
+    bumpMap: textures?.bumpMap ?? null,
+    alphaMap: textures?.alphaMap ?? null,
+    opacity: materialOpacity,
+    transparent,
+    depthWrite: !transparent,
+    wireframe,
+    flatShading
+  });
+}
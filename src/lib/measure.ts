@@ -0,0 +1,114 @@
+import { Camera, InstancedMesh, Line3, Matrix4, Mesh, Vector3 } from "three";
+import { formatAngle, formatLength, type LengthUnit } from "@/lib/units";
+
+export type Point3 = [number, number, number];
+
+export type MeasureTool = 'none' | 'distance' | 'angle' | 'bbox';
+
+export type Measurement =
+  | { id: string; kind: 'distance'; name: string; points: [Point3, Point3] }
+  | { id: string; kind: 'angle'; name: string; points: [Point3, Point3, Point3] }
+  | { id: string; kind: 'bbox'; name: string; objectId: string; min: Point3; max: Point3 };
+
+export type SnapKind = 'vertex' | 'face' | 'edge' | 'surface';
+
+export interface SnapPoint {
+  point: Point3;
+  kind: SnapKind;
+}
+
+// Screen-space snap radius in pixels, checked in this order
+const SNAP_TOLERANCES: Array<[Exclude<SnapKind, 'surface'>, number]> = [
+  ['vertex', 12],
+  ['face', 10],
+  ['edge', 8],
+];
+
+export const toPoint3 = (vector: Vector3): Point3 => [vector.x, vector.y, vector.z];
+
+const toVector = ([x, y, z]: Point3) => new Vector3(x, y, z);
+
+export function measureDistance(a: Point3, b: Point3): number {
+  return toVector(a).distanceTo(toVector(b));
+}
+
+// Angle at `vertex` between the rays towards `a` and `b`, in degrees
+export function measureAngle(a: Point3, vertex: Point3, b: Point3): number {
+  const origin = toVector(vertex);
+  const angle = toVector(a).sub(origin).angleTo(toVector(b).sub(origin));
+  return (angle * 180) / Math.PI;
+}
+
+export function midpoint(a: Point3, b: Point3): Point3 {
+  return toPoint3(toVector(a).add(toVector(b)).multiplyScalar(0.5));
+}
+
+// Snaps a ray hit to the nearest vertex, face centre or edge of the triangle
+// that was hit, when one is close enough on screen
+export function findSnap(
+  mesh: Mesh,
+  face: { a: number; b: number; c: number },
+  hit: Vector3,
+  camera: Camera,
+  size: { width: number; height: number },
+  instanceId?: number
+): SnapPoint {
+  const position = mesh.geometry.getAttribute('position');
+  const instanceMatrix = new Matrix4();
+  if (mesh instanceof InstancedMesh && instanceId !== undefined) {
+    mesh.getMatrixAt(instanceId, instanceMatrix);
+  }
+  const corners = [face.a, face.b, face.c].map((index) =>
+    mesh.localToWorld(new Vector3().fromBufferAttribute(position, index).applyMatrix4(instanceMatrix))
+  );
+
+  const candidates: Record<Exclude<SnapKind, 'surface'>, Vector3[]> = {
+    vertex: corners,
+    face: [corners[0].clone().add(corners[1]).add(corners[2]).divideScalar(3)],
+    edge: [0, 1, 2].map((i) =>
+      new Line3(corners[i], corners[(i + 1) % 3]).closestPointToPoint(hit, true, new Vector3())
+    ),
+  };
+
+  const screenHit = hit.clone().project(camera);
+  const pixelDistance = (point: Vector3) => {
+    const projected = point.clone().project(camera);
+    return Math.hypot(
+      ((projected.x - screenHit.x) * size.width) / 2,
+      ((projected.y - screenHit.y) * size.height) / 2
+    );
+  };
+
+  for (const [kind, tolerance] of SNAP_TOLERANCES) {
+    let best: Vector3 | null = null;
+    let bestDistance = tolerance;
+    for (const candidate of candidates[kind]) {
+      const distance = pixelDistance(candidate);
+      if (distance <= bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    if (best) return { point: toPoint3(best), kind };
+  }
+
+  return { point: toPoint3(hit), kind: 'surface' };
+}
+
+export function boxSize(min: Point3, max: Point3): Point3 {
+  return [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+}
+
+// Human-readable result, converted from the document's model units to `unit`
+export function formatMeasurement(measurement: Measurement, unitSystem: string, unit: LengthUnit = 'model'): string {
+  switch (measurement.kind) {
+    case 'distance':
+      return formatLength(measureDistance(...measurement.points), unitSystem, unit);
+    case 'angle':
+      return formatAngle(measureAngle(...measurement.points));
+    case 'bbox':
+      return boxSize(measurement.min, measurement.max)
+        .map((size) => formatLength(size, unitSystem, unit))
+        .join(' × ');
+  }
+}
@@ -0,0 +1,80 @@
+import { Box3, Plane, Vector3 } from "three";
+import type { Point3 } from "@/lib/measure";
+
+// Section planes and the section box cut the model in the CAD viewer. Each plane keeps the
+// side its normal points to; the box keeps what is inside it.
+
+export type SectionAxis = "x" | "y" | "z";
+
+export interface SectionPlane {
+  id: string;
+  enabled: boolean;
+  origin: Point3;
+  normal: Point3;
+}
+
+export interface SectionBox {
+  enabled: boolean;
+  min: Point3;
+  max: Point3;
+}
+
+export interface SectionState {
+  planes: SectionPlane[];
+  box: SectionBox | null;
+  // Fill the cut faces so closed parts read as solid
+  capped: boolean;
+}
+
+export const MAX_SECTION_PLANES = 3;
+
+export const emptySection: SectionState = { planes: [], box: null, capped: true };
+
+export const AXIS_NORMALS: Record<SectionAxis, Point3> = {
+  x: [1, 0, 0],
+  y: [0, 1, 0],
+  z: [0, 0, 1],
+};
+
+const toVector = ([x, y, z]: Point3) => new Vector3(x, y, z);
+
+export function isSectionActive(section: SectionState) {
+  return section.planes.some((plane) => plane.enabled) || !!section.box?.enabled;
+}
+
+// Planes in three.js form; the box contributes one inward-facing plane per face
+export function clippingPlanes(section: SectionState): Plane[] {
+  const planes = section.planes
+    .filter((plane) => plane.enabled)
+    .map((plane) => new Plane().setFromNormalAndCoplanarPoint(toVector(plane.normal).normalize(), toVector(plane.origin)));
+
+  if (section.box?.enabled) {
+    const min = toVector(section.box.min);
+    const max = toVector(section.box.max);
+    for (const axis of Object.values(AXIS_NORMALS)) {
+      const normal = toVector(axis);
+      planes.push(
+        new Plane().setFromNormalAndCoplanarPoint(normal, min),
+        new Plane().setFromNormalAndCoplanarPoint(normal.clone().negate(), max)
+      );
+    }
+  }
+
+  return planes;
+}
+
+// Whether a point has been cut away by the section
+export function isClipped(planes: Plane[], point: Vector3) {
+  return planes.some((plane) => plane.distanceToPoint(point) < 0);
+}
+
+// A plane through the middle of the model, facing the positive axis
+export function axisPlane(axis: SectionAxis, bounds: Box3): Omit<SectionPlane, "id"> {
+  const center = bounds.isEmpty() ? new Vector3() : bounds.getCenter(new Vector3());
+  return { enabled: true, origin: [center.x, center.y, center.z], normal: AXIS_NORMALS[axis] };
+}
+
+export function boxAroundModel(bounds: Box3): SectionBox {
+  const box = bounds.isEmpty() ? new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1)) : bounds;
+  return { enabled: true, min: [box.min.x, box.min.y, box.min.z], max: [box.max.x, box.max.y, box.max.z] };
+}
@@ -0,0 +1,12 @@
+// The signed-in user. There is no authentication yet, so this is the
+// single dashboard account; per-user preferences are keyed by its id.
+export const currentUser = {
+  id: "admin",
+  name: "Admin",
+  initials: "AD",
+  email: "admin@fleet.com",
+}
+
+export function userStorageKey(key: string) {
+  return `fleetvision.${currentUser.id}.${key}`
+}
@@ -0,0 +1,106 @@
+// Abbreviations for the rhino3dm UnitSystem members we expect in vehicle models
+const UNIT_ABBREVIATIONS: Record<string, string> = {
+  Microns: "µm",
+  Millimeters: "mm",
+  Centimeters: "cm",
+  Decimeters: "dm",
+  Meters: "m",
+  Kilometers: "km",
+  Inches: "in",
+  Feet: "ft",
+  Yards: "yd",
+  Miles: "mi",
+}
+
+export function unitAbbreviation(unitSystem: string): string {
+  return UNIT_ABBREVIATIONS[unitSystem] ?? "units"
+}
+
+// Lengths are shown in the model's own units, or converted to one of these
+export const DISPLAY_UNITS = ["mm", "cm", "m", "in", "ft"] as const
+
+export type DisplayUnit = (typeof DISPLAY_UNITS)[number]
+
+export type LengthUnit = DisplayUnit | "model"
+
+const METERS_PER_DISPLAY_UNIT: Record<DisplayUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  ft: 0.3048,
+}
+
+// Decimals that resolve about a tenth of a millimetre
+const DISPLAY_DIGITS: Record<DisplayUnit, number> = {
+  mm: 1,
+  cm: 2,
+  m: 4,
+  in: 3,
+  ft: 4,
+}
+
+// Model units in one display unit; models without units are taken to be in millimetres
+function modelUnitsPer(unit: LengthUnit, unitSystem: string): number {
+  if (unit === "model") return 1
+  return METERS_PER_DISPLAY_UNIT[unit] / (metersPerUnit(unitSystem) ?? FALLBACK_METERS_PER_UNIT)
+}
+
+export function lengthUnitAbbreviation(unit: LengthUnit, unitSystem: string): string {
+  return unit === "model" ? unitAbbreviation(unitSystem) : unit
+}
+
+// Converts a length in model units to `unit`
+export function convertLength(value: number, unitSystem: string, unit: LengthUnit): number {
+  return value / modelUnitsPer(unit, unitSystem)
+}
+
+export function formatLength(value: number, unitSystem: string, unit: LengthUnit = "model", digits?: number): string {
+  const decimals = digits ?? (unit === "model" ? 2 : DISPLAY_DIGITS[unit])
+  return `${convertLength(value, unitSystem, unit).toFixed(decimals)} ${lengthUnitAbbreviation(unit, unitSystem)}`
+}
+
+export function formatAngle(degrees: number, digits = 1): string {
+  return `${degrees.toFixed(digits)}°`
+}
+
+const METERS_PER_UNIT: Record<string, number> = {
+  Microns: 1e-6,
+  Millimeters: 0.001,
+  Centimeters: 0.01,
+  Decimeters: 0.1,
+  Meters: 1,
+  Kilometers: 1000,
+  Inches: 0.0254,
+  Feet: 0.3048,
+  Yards: 0.9144,
+  Miles: 1609.344,
+}
+
+// Models without units are assumed to be drawn in millimetres, like most vehicle CAD
+export const FALLBACK_METERS_PER_UNIT = 0.001
+
+// Length of one model unit in metres, or undefined when the file has no units
+export function metersPerUnit(unitSystem: string): number | undefined {
+  return METERS_PER_UNIT[unitSystem]
+}
+
+export interface GridSpacing {
+  // Model units
+  cellSize: number
+  sectionSize: number
+  // Cell size in the display unit, e.g. "10 mm"
+  label: string
+}
+
+// Grid cells of 1, 2 or 5 times a power of ten display units, so that about 40 of them
+// span `extent` (model units)
+export function gridSpacing(extent: number, unitSystem: string, unit: LengthUnit): GridSpacing {
+  const perUnit = modelUnitsPer(unit, unitSystem)
+  const target = Math.max(extent, Number.EPSILON) / 40 / perUnit
+  const power = 10 ** Math.floor(Math.log10(target))
+  const step = [1, 2, 5, 10].find((multiple) => multiple * power >= target) * power
+  // Rounding keeps labels like 0.1 from printing as 0.10000000000000001
+  const label = `${Number(step.toPrecision(6))} ${lengthUnitAbbreviation(unit, unitSystem)}`
+  return { cellSize: step * perUnit, sectionSize: step * perUnit * 10, label }
+}
@@ -0,0 +1,44 @@
+// The fleet's vehicles. There is no backend yet, so this is the demo fleet shown across the dashboard.
+
+export interface Vehicle {
+  id: string;
+  plate: string;
+  model: string;
+  status: "active" | "maintenance" | "issue";
+  driver: string;
+  lastUpdate: string;
+}
+
+export const vehicles: Vehicle[] = [
+  {
+    id: "1",
+    plate: "AB-123-CD",
+    model: "Tesla Model 3",
+    status: "active",
+    driver: "John Smith",
+    lastUpdate: "5 min ago",
+  },
+  {
+    id: "2",
+    plate: "EF-456-GH",
+    model: "Renault Zoe",
+    status: "maintenance",
+    driver: "Mary Johnson",
+    lastUpdate: "2h ago",
+  },
+  {
+    id: "3",
+    plate: "IJ-789-KL",
+    model: "Peugeot e-208",
+    status: "issue",
+    driver: "Peter Wilson",
+    lastUpdate: "30 min ago",
+  },
+];
+
+// Vehicles are looked up by id or by plate, ignoring case and separators
+export function findVehicle(idOrPlate: string): Vehicle | undefined {
+  const normalize = (value: string) => value.replace(/[\s-]/g, "").toUpperCase();
+  return vehicles.find((vehicle) => vehicle.id === idOrPlate)
+    ?? vehicles.find((vehicle) => normalize(vehicle.plate) === normalize(idOrPlate));
+}
@@ -0,0 +1,105 @@
+import { Box3, Sphere, Vector3 } from "three";
+import type { RhinoView } from "@/services/rhinoCompute";
+
+// Camera state shared between the CAD page and the viewer. The viewer works
+// in Rhino's Z-up model space and orbits around `position`.
+export interface ViewerControls {
+  // 1 frames the whole model; 2 is twice as close
+  zoom: number;
+  // x: elevation above the XY plane, z: azimuth around Z (radians); y is unused
+  rotation: { x: number; y: number; z: number };
+  // Orbit target; null centres on the model bounding box
+  position: { x: number; y: number; z: number } | null;
+  autoRotate: boolean;
+}
+
+// Vertical field of view of the viewer's camera, in degrees
+export const VIEWER_FOV = 45;
+
+export type StandardView = 'top' | 'front' | 'right' | 'iso';
+
+// Looking straight down the up axis leaves the camera orientation undefined
+const TOP_ELEVATION = Math.PI / 2 - 1e-4;
+
+export const STANDARD_VIEWS: Record<StandardView, { label: string; rotation: ViewerControls['rotation'] }> = {
+  top: { label: 'Top', rotation: { x: TOP_ELEVATION, y: 0, z: -Math.PI / 2 } },
+  front: { label: 'Front', rotation: { x: 0, y: 0, z: -Math.PI / 2 } },
+  right: { label: 'Right', rotation: { x: 0, y: 0, z: 0 } },
+  iso: { label: 'Iso', rotation: { x: Math.atan(1 / Math.SQRT2), y: 0, z: -Math.PI / 4 } },
+};
+
+export const defaultViewerControls: ViewerControls = {
+  zoom: 1,
+  rotation: STANDARD_VIEWS.iso.rotation,
+  position: null,
+  autoRotate: false,
+};
+
+export const ZOOM_STEP = 1.25;
+
+export function zoomToFit(controls: ViewerControls): ViewerControls {
+  return { ...controls, zoom: 1, position: null };
+}
+
+export function showStandardView(controls: ViewerControls, view: StandardView): ViewerControls {
+  return { ...zoomToFit(controls), rotation: STANDARD_VIEWS[view].rotation };
+}
+
+// Distance at which a sphere around the model fills a perspective camera's view
+export function fitDistance(bounds: Box3, fovDegrees: number): number {
+  const radius = bounds.isEmpty() ? 5 : Math.max(bounds.getBoundingSphere(new Sphere()).radius, 1e-3);
+  return radius / Math.sin((fovDegrees * Math.PI) / 360);
+}
+
+export function orbitOffset(rotation: ViewerControls['rotation'], distance: number): Vector3 {
+  const { x: elevation, z: azimuth } = rotation;
+  return new Vector3(
+    Math.cos(elevation) * Math.cos(azimuth),
+    Math.cos(elevation) * Math.sin(azimuth),
+    Math.sin(elevation)
+  ).multiplyScalar(distance);
+}
+
+export function rotationFromOffset(offset: Vector3): ViewerControls['rotation'] {
+  const distance = offset.length() || 1;
+  return {
+    x: Math.asin(Math.max(-1, Math.min(1, offset.z / distance))),
+    y: 0,
+    z: Math.atan2(offset.y, offset.x),
+  };
+}
+
+// Half angle of a very wide lens (about 10mm on a 35mm camera)
+const MAX_LENS_ANGLE = 1.2;
+
+// Views looking straight up or down take their heading from the camera's up vector
+function rotationFromCamera(offset: Vector3, up: Vector3): ViewerControls['rotation'] {
+  const rotation = rotationFromOffset(offset);
+  if (Math.abs(rotation.x) < TOP_ELEVATION) return rotation;
+  const sign = rotation.x > 0 ? -1 : 1;
+  return { x: Math.sign(rotation.x) * TOP_ELEVATION, y: 0, z: Math.atan2(sign * up.y, sign * up.x) };
+}
+
+// Controls looking at the model like a camera saved in the file. The viewer keeps its own
+// field of view, so the distance is scaled to frame as much as the file's lens did.
+export function controlsFromView(view: RhinoView, bounds: Box3): ViewerControls {
+  const up = new Vector3(...view.up);
+  const rotation = rotationFromCamera(new Vector3(...view.direction).negate(), up);
+  // Parallel views have no meaningful distance; frame the model from their direction instead
+  if (!view.target || view.parallel) {
+    return { zoom: 1, rotation, position: null, autoRotate: false };
+  }
+
+  const offset = new Vector3(...view.location).sub(new Vector3(...view.target));
+  // Viewports without a frustum report a right angle; keep our own lens for those
+  const lensAngle = view.cameraAngle > 0.01 && view.cameraAngle < MAX_LENS_ANGLE ? view.cameraAngle : (VIEWER_FOV * Math.PI) / 360;
+  const distance = (offset.length() * Math.tan(lensAngle)) / Math.tan((VIEWER_FOV * Math.PI) / 360);
+  const [x, y, z] = view.target;
+
+  return {
+    zoom: distance > 0 ? fitDistance(bounds, VIEWER_FOV) / distance : 1,
+    rotation: rotationFromCamera(offset, up),
+    position: { x, y, z },
+    autoRotate: false,
+  };
+}
@@ -1,30 +1,108 @@
-import { useState } from "react";
-import { Upload, RotateCcw, ZoomIn, ZoomOut, Save } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Upload, RotateCcw, ZoomIn, ZoomOut, Save, Maximize, RefreshCw, Library, Link2 } from "lucide-react";
 import { Sidebar } from "@/components/dashboard/Sidebar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { FileUpload } from "@/components/cad/FileUpload";
-import { CADViewer } from "@/components/cad/CADViewer";
+import { CADViewer, type ViewerSnapshot } from "@/components/cad/CADViewer";
 import { ToolPanel } from "@/components/cad/ToolPanel";
+import { ComputeStatusBadge } from "@/components/cad/ComputeStatusBadge";
+import { ExportMenu } from "@/components/cad/ExportMenu";
+import { AttachToVehicleDialog } from "@/components/cad/AttachToVehicleDialog";
+import { ModelLibraryDialog } from "@/components/cad/ModelLibraryDialog";
+import { SaveModelDialog } from "@/components/cad/SaveModelDialog";
+import { Toggle } from "@/components/ui/toggle";
+import { namedViewActions, namedViewsKey } from "@/hooks/use-named-views";
+import {
+  defaultViewerControls,
+  showStandardView,
+  zoomToFit,
+  STANDARD_VIEWS,
+  ZOOM_STEP,
+  type StandardView,
+  type ViewerControls
+} from "@/lib/viewer-controls";
+import {
+  lastOpenVersion,
+  modelLibrary,
+  rememberOpenVersion,
+  versionFile,
+  type CachedScene,
+  type LibraryModel,
+  type LibraryVersion
+} from "@/services/modelLibrary";
 
 const CAD = () => {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [viewerControls, setViewerControls] = useState({
-    zoom: 1,
-    rotation: { x: 0, y: 0, z: 0 },
-    position: { x: 0, y: 0, z: 0 }
-  });
+  const [cachedScene, setCachedScene] = useState<CachedScene | null>(null);
+  // Library entry and version the open file is, if it was opened from or saved to the library
+  const [libraryModelId, setLibraryModelId] = useState<string | undefined>();
+  const [libraryVersionId, setLibraryVersionId] = useState<string | undefined>();
+  const [viewerControls, setViewerControls] = useState<ViewerControls>(defaultViewerControls);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [attachOpen, setAttachOpen] = useState(false);
+  const snapshotRef = useRef<ViewerSnapshot>();
+  // Set once the user picks a file, so restoring the last model cannot replace it
+  const fileChosen = useRef(false);
 
   const handleFileUpload = (file: File) => {
+    fileChosen.current = true;
     setUploadedFile(file);
+    setCachedScene(null);
+    setLibraryModelId(undefined);
+    setLibraryVersionId(undefined);
+    rememberOpenVersion(null);
   };
 
+  const openLibraryVersion = async (model: LibraryModel, version: LibraryVersion) => {
+    fileChosen.current = true;
+    const cache = await modelLibrary.getScene(version.id);
+    setCachedScene(cache ?? null);
+    setUploadedFile(versionFile(version));
+    setLibraryModelId(model.id);
+    setLibraryVersionId(version.id);
+    rememberOpenVersion(version.id);
+  };
+
+  const handleSaved = (model: LibraryModel, version: LibraryVersion) => {
+    // Bookmarks made before the first save were kept under the file name
+    if (!libraryModelId && uploadedFile) {
+      namedViewActions.moveViews(namedViewsKey(uploadedFile.name), namedViewsKey(uploadedFile.name, model.id));
+    }
+    setLibraryModelId(model.id);
+    setLibraryVersionId(version.id);
+    rememberOpenVersion(version.id);
+  };
+
+  // Reopen the library model that was open before the page was refreshed
+  useEffect(() => {
+    const versionId = lastOpenVersion();
+    if (!versionId) return;
+    modelLibrary.getVersion(versionId)
+      .then(async (version) => {
+        if (!version) {
+          rememberOpenVersion(null);
+          return;
+        }
+        const [cache, models] = await Promise.all([modelLibrary.getScene(version.id), modelLibrary.listModels()]);
+        const model = models.find((entry) => entry.id === version.modelId);
+        if (model && !fileChosen.current) {
+          setCachedScene(cache ?? null);
+          setUploadedFile(versionFile(version));
+          setLibraryModelId(model.id);
+          setLibraryVersionId(version.id);
+        }
+      })
+      .catch((error) => console.warn('=== CAD: Could not reopen the last model ===', error));
+  }, []);
+
   const resetView = () => {
-    setViewerControls({
-      zoom: 1,
-      rotation: { x: 0, y: 0, z: 0 },
-      position: { x: 0, y: 0, z: 0 }
-    });
+    setViewerControls(defaultViewerControls);
+  };
+
+  const zoomBy = (factor: number) => {
+    setViewerControls((controls) => ({ ...controls, zoom: controls.zoom * factor }));
   };
 
   return (
@@ -36,14 +114,29 @@ const CAD = () => {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-2xl font-bold text-gray-900">3D Modeling</h1>
-              <p className="text-gray-600">Upload and visualize your Rhino 3DM files</p>
+              <p className="text-gray-600">Upload and visualize Rhino, STL, OBJ, PLY and glTF models</p>
             </div>
-            <div className="flex space-x-2">
+            <div className="flex items-center space-x-2">
+              <ComputeStatusBadge />
               <Button variant="outline" onClick={resetView}>
                 <RotateCcw className="w-4 h-4 mr-2" />
                 Reset View
               </Button>
-              <Button>
+              <Button variant="outline" onClick={() => setLibraryOpen(true)}>
+                <Library className="w-4 h-4 mr-2" />
+                Library
+              </Button>
+              <ExportMenu fileName={uploadedFile?.name} />
+              <Button
+                variant="outline"
+                disabled={!libraryVersionId}
+                title={libraryVersionId ? undefined : 'Save the model to the library first'}
+                onClick={() => setAttachOpen(true)}
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                Attach
+              </Button>
+              <Button disabled={!uploadedFile} onClick={() => setSaveOpen(true)}>
                 <Save className="w-4 h-4 mr-2" />
                 Save
               </Button>
@@ -64,20 +157,49 @@ const CAD = () => {
                       {uploadedFile.name}
                     </CardTitle>
                     <div className="flex space-x-2">
-                      <Button variant="outline" size="sm">
+                      {(Object.keys(STANDARD_VIEWS) as StandardView[]).map((view) => (
+                        <Button
+                          key={view}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setViewerControls((controls) => showStandardView(controls, view))}
+                        >
+                          {STANDARD_VIEWS[view].label}
+                        </Button>
+                      ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Zoom to fit"
+                        onClick={() => setViewerControls(zoomToFit)}
+                      >
+                        <Maximize className="w-4 h-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" title="Zoom out" onClick={() => zoomBy(1 / ZOOM_STEP)}>
                         <ZoomOut className="w-4 h-4" />
                       </Button>
-                      <Button variant="outline" size="sm">
+                      <Button variant="outline" size="sm" title="Zoom in" onClick={() => zoomBy(ZOOM_STEP)}>
                         <ZoomIn className="w-4 h-4" />
                       </Button>
+                      <Toggle
+                        variant="outline"
+                        size="sm"
+                        title="Auto-rotate"
+                        pressed={viewerControls.autoRotate}
+                        onPressedChange={(autoRotate) => setViewerControls((controls) => ({ ...controls, autoRotate }))}
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Toggle>
                     </div>
                   </div>
                 </CardHeader>
                 <CardContent className="h-[calc(100%-5rem)]">
                   <CADViewer 
                     file={uploadedFile} 
+                    cachedScene={cachedScene}
                     controls={viewerControls}
                     onControlsChange={setViewerControls}
+                    onSnapshotReady={(snapshot) => { snapshotRef.current = snapshot; }}
                   />
                 </CardContent>
               </Card>
@@ -86,9 +208,10 @@ const CAD = () => {
 
           {/* Tool Panel */}
           {uploadedFile && (
-            <div className="w-80 p-6 bg-white border-l">
+            <div className="w-80 p-6 bg-white border-l overflow-y-auto">
               <ToolPanel 
                 file={uploadedFile}
+                libraryModelId={libraryModelId}
                 controls={viewerControls}
                 onControlsChange={setViewerControls}
               />
@@ -96,6 +219,26 @@ const CAD = () => {
           )}
         </div>
       </main>
+
+      <ModelLibraryDialog open={libraryOpen} onOpenChange={setLibraryOpen} onOpenVersion={openLibraryVersion} />
+      {uploadedFile && (
+        <SaveModelDialog
+          open={saveOpen}
+          onOpenChange={setSaveOpen}
+          file={uploadedFile}
+          modelId={libraryModelId}
+          snapshot={() => snapshotRef.current?.() ?? ''}
+          onSaved={handleSaved}
+        />
+      )}
+      {libraryModelId && libraryVersionId && (
+        <AttachToVehicleDialog
+          open={attachOpen}
+          onOpenChange={setAttachOpen}
+          modelId={libraryModelId}
+          versionId={libraryVersionId}
+        />
+      )}
     </div>
   );
 };
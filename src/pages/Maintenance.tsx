@@ -4,31 +4,12 @@ import { Badge } from "@/components/ui/badge";
 import { Sidebar } from "@/components/dashboard/Sidebar";
 import { Button } from "@/components/ui/button";
 import { Plus, Wrench } from "lucide-react";
+import { useMaintenance } from "@/hooks/use-maintenance";
+import { useDamageReports } from "@/hooks/use-damage-reports";
 
 const Maintenance = () => {
-  const maintenanceRecords = [
-    { 
-      id: 1, 
-      vehicle: "ABC-123", 
-      issue: "Changement des freins", 
-      status: "En cours", 
-      date: "2024-02-20" 
-    },
-    { 
-      id: 2, 
-      vehicle: "DEF-456", 
-      issue: "Vidange", 
-      status: "Planifié", 
-      date: "2024-02-25" 
-    },
-    { 
-      id: 3, 
-      vehicle: "GHI-789", 
-      issue: "Pneus à changer", 
-      status: "En attente", 
-      date: "2024-02-22" 
-    },
-  ];
+  const { records: maintenanceRecords } = useMaintenance();
+  const { reports } = useDamageReports();
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -38,6 +19,8 @@ const Maintenance = () => {
         return "bg-green-500";
       case "En attente":
         return "bg-orange-500";
+      case "Terminé":
+        return "bg-gray-400";
       default:
         return "bg-gray-500";
     }
@@ -103,6 +86,7 @@ const Maintenance = () => {
                     <TableHead>Problème</TableHead>
                     <TableHead>Statut</TableHead>
                     <TableHead>Date</TableHead>
+                    <TableHead>Dommages</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -116,6 +100,9 @@ const Maintenance = () => {
                         </Badge>
                       </TableCell>
                       <TableCell>{record.date}</TableCell>
+                      <TableCell>
+                        {reports.filter((report) => report.interventionId === record.id).length || "—"}
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Settings as SettingsIcon, User, Bell, Shield, Database, Palette } from "lucide-react";
+import { Settings as SettingsIcon, User, Bell, Shield, Database, Palette, Box, Loader } from "lucide-react";
 import { Sidebar } from "@/components/dashboard/Sidebar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,10 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useComputeHealth } from "@/hooks/use-compute-health";
+import { rhinoService, type ComputeHealth } from "@/services/rhinoCompute";
 
 const Settings = () => {
   const [notifications, setNotifications] = useState({
@@ -16,6 +20,30 @@ const Settings = () => {
     maintenance: true,
     alerts: true
   });
+  const { toast } = useToast();
+  const activeComputeHealth = useComputeHealth();
+  const [computeConfig, setComputeConfig] = useState(() => rhinoService.getComputeConfig());
+  const [computeTest, setComputeTest] = useState<ComputeHealth | null>(null);
+  const [testingCompute, setTestingCompute] = useState(false);
+
+  // Show the result of the last manual test, or the live status of the saved server
+  const computeHealth = computeTest ?? activeComputeHealth;
+
+  const testComputeConnection = async () => {
+    setTestingCompute(true);
+    try {
+      setComputeTest(await rhinoService.checkComputeHealth(computeConfig));
+    } finally {
+      setTestingCompute(false);
+    }
+  };
+
+  const saveChanges = () => {
+    rhinoService.setComputeConfig(computeConfig);
+    setComputeTest(null);
+    rhinoService.checkComputeHealth();
+    toast({ title: "Settings saved" });
+  };
 
   return (
     <div className="flex h-screen bg-gray-100">
@@ -139,6 +167,65 @@ const Settings = () => {
               </CardContent>
             </Card>
 
+            {/* Geometry Services */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center space-x-2">
+                  <Box className="w-5 h-5" />
+                  <CardTitle>Geometry Services</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="computeUrl">Rhino Compute URL</Label>
+                  <Input
+                    id="computeUrl"
+                    placeholder="http://localhost:6500"
+                    value={computeConfig.url}
+                    onChange={(e) => setComputeConfig(prev => ({ ...prev, url: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="computeApiKey">API Key</Label>
+                  <Input
+                    id="computeApiKey"
+                    type="password"
+                    placeholder="Optional"
+                    value={computeConfig.apiKey}
+                    onChange={(e) => setComputeConfig(prev => ({ ...prev, apiKey: e.target.value }))}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="text-sm">
+                    {computeHealth.status === 'online' && (
+                      <div className="flex items-center space-x-2">
+                        <Badge className="bg-green-500">Online</Badge>
+                        <span className="text-gray-600">
+                          {computeHealth.version} · {computeHealth.latencyMs} ms
+                        </span>
+                      </div>
+                    )}
+                    {computeHealth.status === 'offline' && (
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="destructive">Offline</Badge>
+                        <span className="text-gray-600">{computeHealth.error}</span>
+                      </div>
+                    )}
+                    {(computeHealth.status === 'unknown' || computeHealth.status === 'checking') && (
+                      <span className="text-gray-500">Connection not tested</span>
+                    )}
+                    <p className="text-gray-500 mt-1">
+                      3DM files are parsed locally with rhino3dm when Compute is offline
+                    </p>
+                  </div>
+                  <Button variant="outline" onClick={testComputeConnection} disabled={testingCompute}>
+                    {testingCompute && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+                    Test Connection
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
             {/* System Preferences */}
             <Card>
               <CardHeader>
@@ -195,7 +282,7 @@ const Settings = () => {
             {/* Actions */}
             <div className="flex justify-end space-x-4">
               <Button variant="outline">Cancel</Button>
-              <Button>Save Changes</Button>
+              <Button onClick={saveChanges}>Save Changes</Button>
             </div>
           </div>
         </div>
@@ -0,0 +1,101 @@
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Sidebar } from "@/components/dashboard/Sidebar";
+import { CargoPlanner } from "@/components/vehicles/CargoPlanner";
+import { VehicleModelPreview } from "@/components/vehicles/VehicleModelPreview";
+import { useVehicleModels } from "@/hooks/use-vehicle-models";
+import { findVehicle } from "@/lib/vehicles";
+
+const statusLabels = {
+  active: { label: "Actif", className: "bg-green-500" },
+  maintenance: { label: "En maintenance", className: "bg-orange-500" },
+  issue: { label: "Problème", className: "bg-red-500" },
+};
+
+const VehicleDetail = () => {
+  const { vehicleId = "" } = useParams();
+  const vehicle = findVehicle(vehicleId);
+  const { links } = useVehicleModels(vehicle?.id);
+
+  return (
+    <div className="flex h-screen bg-gray-100">
+      <Sidebar />
+      <div className="flex-1 p-8 overflow-auto">
+        <div className="max-w-7xl mx-auto">
+          <Button variant="ghost" size="sm" className="mb-4" asChild>
+            <Link to="/vehicles">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Véhicules
+            </Link>
+          </Button>
+
+          {!vehicle ? (
+            <Card>
+              <CardContent className="p-8 text-center text-gray-500">
+                Véhicule introuvable : {vehicleId}
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex items-center gap-4 mb-8">
+                <h1 className="text-2xl font-bold text-gray-900">{vehicle.plate}</h1>
+                <span className="text-gray-600">{vehicle.model}</span>
+                <Badge className={statusLabels[vehicle.status].className}>
+                  {statusLabels[vehicle.status].label}
+                </Badge>
+              </div>
+
+              <Tabs defaultValue="overview">
+                <TabsList className="mb-6">
+                  <TabsTrigger value="overview">Aperçu</TabsTrigger>
+                  <TabsTrigger value="3d">Aperçu 3D ({links.length})</TabsTrigger>
+                  <TabsTrigger value="cargo">Chargement</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="overview">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Informations</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <p className="text-gray-500">Immatriculation</p>
+                        <p className="font-medium">{vehicle.plate}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Modèle</p>
+                        <p className="font-medium">{vehicle.model}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Conducteur</p>
+                        <p className="font-medium">{vehicle.driver}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Dernière mise à jour</p>
+                        <p className="font-medium">{vehicle.lastUpdate}</p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="3d">
+                  <VehicleModelPreview vehicle={vehicle} />
+                </TabsContent>
+
+                <TabsContent value="cargo">
+                  <CargoPlanner vehicle={vehicle} />
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VehicleDetail;
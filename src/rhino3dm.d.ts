@@ -0,0 +1,40 @@
+// rhino3dm's bundled typings lag behind its WASM API. These fill in the members the
+// viewer relies on: the embind delete() every handle has, and calls whose declared
+// arguments do not match the runtime.
+declare module "rhino3dm" {
+  interface CommonObject {
+    delete(): void;
+  }
+
+  interface File3dm {
+    delete(): void;
+  }
+
+  interface ViewInfo {
+    delete(): void;
+  }
+
+  interface PhysicallyBasedMaterial {
+    delete(): void;
+  }
+
+  interface Texture {
+    delete(): void;
+  }
+
+  interface Point3dList {
+    delete(): void;
+  }
+
+  interface GeometryBase {
+    getBoundingBox(): BoundingBox;
+  }
+
+  interface Curve {
+    isLinear(tolerance: number): boolean;
+  }
+
+  interface SubD {
+    subdivide(count: number): boolean;
+  }
+}
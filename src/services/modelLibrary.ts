@@ -0,0 +1,204 @@
+// Model library kept in the browser's IndexedDB: the original files, their parsed scenes,
+// thumbnails and tags. Every upload of the same part is a version of one library entry.
+import { currentUser, userStorageKey } from "@/lib/session";
+import type { RhinoScene } from "./rhinoCompute";
+
+export interface LibraryModel {
+  id: string;
+  name: string;
+  tags: string[];
+  // JPEG data URL of the viewport when the latest version was saved
+  thumbnail?: string;
+  latestVersionId: string;
+  versionCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LibraryVersion {
+  id: string;
+  modelId: string;
+  // 1 for the first upload, counting up
+  version: number;
+  fileName: string;
+  fileType: string;
+  size: number;
+  file: Blob;
+  objectCount: number;
+  uploadedAt: number;
+  uploadedBy: string;
+}
+
+// A parsed scene stored with the meshing options it was tessellated with.
+// `meshingKey` is null for formats that cannot be re-meshed.
+export interface CachedScene {
+  scene: RhinoScene;
+  meshingKey: string | null;
+}
+
+export interface SaveModelInput {
+  file: File;
+  name: string;
+  tags: string[];
+  // Adds a version to this entry instead of creating a new one
+  modelId?: string;
+  thumbnail?: string;
+  cache?: CachedScene;
+}
+
+const DB_VERSION = 1;
+// The version open in the viewer, reopened after a page refresh
+const OPEN_VERSION_STORAGE_KEY = userStorageKey('cad.openVersion');
+const MODELS = 'models';
+const VERSIONS = 'versions';
+// Scenes live apart from versions so browsing the library never loads geometry
+const SCENES = 'scenes';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+export class ModelLibraryService {
+  private static instance: ModelLibraryService;
+  private database: Promise<IDBDatabase> | null = null;
+
+  static getInstance(): ModelLibraryService {
+    if (!ModelLibraryService.instance) {
+      ModelLibraryService.instance = new ModelLibraryService();
+    }
+    return ModelLibraryService.instance;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('The model library needs a browser with IndexedDB'));
+        return;
+      }
+      const request = indexedDB.open(userStorageKey('models'), DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(MODELS, { keyPath: 'id' });
+        db.createObjectStore(VERSIONS, { keyPath: 'id' }).createIndex('modelId', 'modelId');
+        db.createObjectStore(SCENES);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open can be retried, e.g. after the user leaves private browsing
+    this.database.catch(() => {
+      this.database = null;
+    });
+    return this.database;
+  }
+
+  async listModels(): Promise<LibraryModel[]> {
+    const db = await this.open();
+    const models = await promisify<LibraryModel[]>(db.transaction(MODELS).objectStore(MODELS).getAll());
+    return models.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async listVersions(modelId: string): Promise<LibraryVersion[]> {
+    const db = await this.open();
+    const versions = await promisify<LibraryVersion[]>(
+      db.transaction(VERSIONS).objectStore(VERSIONS).index('modelId').getAll(modelId)
+    );
+    return versions.sort((a, b) => b.version - a.version);
+  }
+
+  async getVersion(versionId: string): Promise<LibraryVersion | undefined> {
+    const db = await this.open();
+    return promisify<LibraryVersion | undefined>(db.transaction(VERSIONS).objectStore(VERSIONS).get(versionId));
+  }
+
+  async getScene(versionId: string): Promise<CachedScene | undefined> {
+    const db = await this.open();
+    return promisify<CachedScene | undefined>(db.transaction(SCENES).objectStore(SCENES).get(versionId));
+  }
+
+  async saveModel({ file, name, tags, modelId, thumbnail, cache }: SaveModelInput): Promise<{
+    model: LibraryModel;
+    version: LibraryVersion;
+  }> {
+    const db = await this.open();
+    const now = Date.now();
+    const transaction = db.transaction([MODELS, VERSIONS, SCENES], 'readwrite');
+    const models = transaction.objectStore(MODELS);
+
+    const existing = modelId
+      ? await promisify<LibraryModel | undefined>(models.get(modelId))
+      : undefined;
+    if (modelId && !existing) {
+      transaction.abort();
+      throw new Error('The library entry no longer exists');
+    }
+
+    const version: LibraryVersion = {
+      id: crypto.randomUUID(),
+      modelId: existing?.id ?? crypto.randomUUID(),
+      version: (existing?.versionCount ?? 0) + 1,
+      fileName: file.name,
+      fileType: file.type,
+      size: file.size,
+      // IndexedDB keeps File as a plain Blob; the name is stored alongside
+      file,
+      objectCount: cache?.scene.objects.length ?? 0,
+      uploadedAt: now,
+      uploadedBy: currentUser.name
+    };
+    const model: LibraryModel = {
+      id: version.modelId,
+      name,
+      tags,
+      thumbnail: thumbnail ?? existing?.thumbnail,
+      latestVersionId: version.id,
+      versionCount: version.version,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    models.put(model);
+    transaction.objectStore(VERSIONS).put(version);
+    if (cache) transaction.objectStore(SCENES).put(cache, version.id);
+    await completion(transaction);
+
+    return { model, version };
+  }
+
+  async deleteModel(modelId: string): Promise<void> {
+    const versions = await this.listVersions(modelId);
+    const db = await this.open();
+    const transaction = db.transaction([MODELS, VERSIONS, SCENES], 'readwrite');
+    transaction.objectStore(MODELS).delete(modelId);
+    for (const version of versions) {
+      transaction.objectStore(VERSIONS).delete(version.id);
+      transaction.objectStore(SCENES).delete(version.id);
+    }
+    await completion(transaction);
+  }
+}
+
+export const modelLibrary = ModelLibraryService.getInstance();
+
+// The File a version was uploaded as, for the viewer and loaders
+export const versionFile = (version: LibraryVersion) =>
+  new File([version.file], version.fileName, { type: version.fileType, lastModified: version.uploadedAt });
+
+export function rememberOpenVersion(versionId: string | null) {
+  if (versionId) {
+    localStorage.setItem(OPEN_VERSION_STORAGE_KEY, versionId);
+  } else {
+    localStorage.removeItem(OPEN_VERSION_STORAGE_KEY);
+  }
+}
+
+export const lastOpenVersion = () => localStorage.getItem(OPEN_VERSION_STORAGE_KEY);
@@ -0,0 +1,392 @@
+// Loaders for the model formats the CAD viewer opens, keyed by file extension and magic bytes.
+// Every loader produces the same RhinoScene model, so layers, measuring and export work for all of them.
+import {
+  BufferGeometry,
+  Line,
+  LineLoop,
+  LineSegments,
+  MathUtils,
+  Matrix3,
+  Matrix4,
+  Mesh,
+  MeshStandardMaterial,
+  Object3D,
+  Points,
+  SRGBColorSpace,
+  Vector3,
+  type Material,
+  type Texture
+} from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader.js";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
+import {
+  rhinoService,
+  type ParseOptions,
+  type RhinoGeometry,
+  type RhinoLayer,
+  type RhinoMaterial,
+  type RhinoObject,
+  type RhinoScene,
+  type RhinoTexture
+} from "./rhinoCompute";
+
+export interface ModelLoader {
+  id: string;
+  // Shown in the upload area, e.g. 'Rhino 3D'
+  label: string;
+  // Lower-case extensions including the dot
+  extensions: string[];
+  // Recognises the format from the first bytes of the file, for files with a missing or wrong extension
+  detect?: (header: string) => boolean;
+  // Whether the model can be re-meshed when the meshing quality changes
+  remeshable: boolean;
+  load: (file: File, options: ParseOptions) => Promise<RhinoScene>;
+}
+
+// Enough for every signature below
+const HEADER_BYTES = 32;
+
+// Mesh formats carry no display colour, so their layers get a neutral one
+const IMPORTED_LAYER_COLOR = '#9ca3af';
+
+const loaders: ModelLoader[] = [];
+
+export function registerModelLoader(loader: ModelLoader) {
+  const existing = loaders.findIndex((registered) => registered.id === loader.id);
+  if (existing > -1) {
+    loaders.splice(existing, 1, loader);
+  } else {
+    loaders.push(loader);
+  }
+}
+
+export function getModelLoaders(): readonly ModelLoader[] {
+  return loaders;
+}
+
+export const fileExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > -1 ? fileName.slice(dot).toLowerCase() : '';
+};
+
+export const loaderForFileName = (fileName: string) =>
+  loaders.find((loader) => loader.extensions.includes(fileExtension(fileName)));
+
+// Magic bytes win over the extension, which is often wrong for files passed around by suppliers
+export async function findModelLoader(file: File): Promise<ModelLoader | undefined> {
+  const header = new TextDecoder('latin1').decode(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  return loaders.find((loader) => loader.detect?.(header)) ?? loaderForFileName(file.name);
+}
+
+export async function loadModel(file: File, options: ParseOptions = {}): Promise<{ scene: RhinoScene; loader: ModelLoader }> {
+  const loader = await findModelLoader(file);
+  if (!loader) {
+    const supported = loaders.flatMap((registered) => registered.extensions).join(', ');
+    throw new Error(`Unsupported file format "${fileExtension(file.name) || file.name}". Supported formats: ${supported}`);
+  }
+  return { scene: await loader.load(file, options), loader };
+}
+
+export interface SceneConversionOptions {
+  // Rotates Y-up formats into Rhino's Z-up world
+  upAxisY: boolean;
+  // False for formats without materials, whose meshes only carry three's placeholder
+  materials: boolean;
+}
+
+// Converts a three.js scene graph into the viewer's model.
+// Named groups become layers, meshes, lines and points become objects in world space.
+export function sceneFromObject3D(root: Object3D, options: SceneConversionOptions): RhinoScene {
+  const rootTransform = new Matrix4();
+  if (options.upAxisY) rootTransform.makeRotationX(Math.PI / 2);
+  root.updateMatrixWorld(true);
+
+  const layers: RhinoLayer[] = [];
+  const layerByNode = new Map<Object3D, RhinoLayer>();
+  const addLayer = (id: string, name: string, parent: RhinoLayer | null, visible = true) => {
+    const layer: RhinoLayer = {
+      index: layers.length,
+      id,
+      name,
+      fullPath: parent ? `${parent.fullPath}::${name}` : name,
+      color: IMPORTED_LAYER_COLOR,
+      parentIndex: parent?.index ?? null,
+      visible,
+      locked: false,
+      material: -1
+    };
+    layers.push(layer);
+    return layer;
+  };
+  // The nearest named group above a node
+  const groupAbove = (node: Object3D): Object3D | null => {
+    let parent = node.parent;
+    while (parent && parent !== root && !(parent.name && !isDrawable(parent))) {
+      parent = parent.parent;
+    }
+    return parent && parent !== root ? parent : null;
+  };
+  const groupLayer = (group: Object3D): RhinoLayer => {
+    let layer = layerByNode.get(group);
+    if (!layer) {
+      const parent = groupAbove(group);
+      layer = addLayer(group.uuid, group.name, parent && groupLayer(parent), group.visible);
+      layerByNode.set(group, layer);
+    }
+    return layer;
+  };
+  // Nodes outside any named group go on a default layer
+  let defaultLayer: RhinoLayer | null = null;
+  const layerOf = (node: Object3D): RhinoLayer => {
+    const group = groupAbove(node);
+    if (group) return groupLayer(group);
+    defaultLayer ??= addLayer(MathUtils.generateUUID(), 'Default', null);
+    return defaultLayer;
+  };
+
+  const materials: RhinoMaterial[] = [];
+  const materialIndex = new Map<Material, number>();
+  const materialOf = (material: Material | Material[]): number => {
+    // Multi-material meshes keep their first material
+    const first = Array.isArray(material) ? material[0] : material;
+    if (!first) return -1;
+    let index = materialIndex.get(first);
+    if (index === undefined) {
+      index = materials.length;
+      materials.push(convertMaterial(first, index));
+      materialIndex.set(first, index);
+    }
+    return index;
+  };
+
+  const objects: RhinoObject[] = [];
+  const skipped: Record<string, number> = {};
+
+  root.traverse((node) => {
+    if (!isDrawable(node)) return;
+    const transform = rootTransform.clone().multiply(node.matrixWorld);
+    const geometry = convertGeometry(node, transform);
+    if (!geometry) {
+      skipped[node.type] = (skipped[node.type] ?? 0) + 1;
+      return;
+    }
+
+    const material = options.materials && node instanceof Mesh ? materialOf(node.material) : -1;
+    objects.push({
+      id: MathUtils.generateUUID(),
+      geometry,
+      objectType: node instanceof Mesh ? 'Mesh' : node instanceof Points ? 'PointSet' : 'Curve',
+      attributes: {
+        name: node.name || undefined,
+        layer: layerOf(node).index,
+        material,
+        materialSource: material > -1 ? 'object' : 'layer',
+        colorSource: material > -1 ? 'material' : 'layer',
+        visible: node.visible,
+        userStrings: stringValues(node.userData)
+      }
+    });
+  });
+
+  return { objects, blocks: [], skipped, layers, materials, unitSystem: 'None', tolerance: null, views: [] };
+}
+
+const isDrawable = (node: Object3D): node is Mesh | Line | Points =>
+  node instanceof Mesh || node instanceof Line || node instanceof Points;
+
+function convertGeometry(node: Mesh | Line | Points, transform: Matrix4): RhinoGeometry | null {
+  const source = node.geometry as BufferGeometry;
+  const position = source.getAttribute('position');
+  if (!position || position.count === 0) return null;
+
+  const vector = new Vector3();
+  const positions = new Float32Array(position.count * 3);
+  for (let i = 0; i < position.count; i++) {
+    vector.fromBufferAttribute(position, i).applyMatrix4(transform).toArray(positions, i * 3);
+  }
+
+  const sourceIndices = source.getIndex()?.array;
+  const count = sourceIndices?.length ?? position.count;
+  const indexAt = (i: number) => (sourceIndices ? sourceIndices[i] : i);
+  const IndexArray = position.count > 65535 ? Uint32Array : Uint16Array;
+
+  if (node instanceof Points) {
+    return { kind: 'points', positions, indices: new IndexArray(0) };
+  }
+
+  if (node instanceof Line) {
+    // Curves are drawn as indexed segment pairs
+    const segments: number[] = [];
+    const step = node instanceof LineSegments ? 2 : 1;
+    for (let i = 0; i + 1 < count; i += step) {
+      segments.push(indexAt(i), indexAt(i + 1));
+    }
+    if (node instanceof LineLoop && count > 2) segments.push(indexAt(count - 1), indexAt(0));
+    return { kind: 'curve', positions, indices: IndexArray.from(segments) };
+  }
+
+  const indices = new IndexArray(count);
+  for (let i = 0; i < count; i++) indices[i] = indexAt(i);
+
+  let normals: Float32Array | undefined;
+  const normal = source.getAttribute('normal');
+  if (normal) {
+    const normalMatrix = new Matrix3().getNormalMatrix(transform);
+    normals = new Float32Array(normal.count * 3);
+    for (let i = 0; i < normal.count; i++) {
+      vector.fromBufferAttribute(normal, i).applyNormalMatrix(normalMatrix).toArray(normals, i * 3);
+    }
+  }
+
+  // Vertex colours are stored as RGBA, whatever the source had
+  let colors: Float32Array | undefined;
+  const color = source.getAttribute('color');
+  if (color) {
+    colors = new Float32Array(color.count * 4);
+    for (let i = 0; i < color.count; i++) {
+      colors[i * 4] = color.getX(i);
+      colors[i * 4 + 1] = color.getY(i);
+      colors[i * 4 + 2] = color.getZ(i);
+      colors[i * 4 + 3] = color.itemSize === 4 ? color.getW(i) : 1;
+    }
+  }
+
+  let uvs: Float32Array | undefined;
+  const uv = source.getAttribute('uv');
+  if (uv) {
+    uvs = new Float32Array(uv.count * 2);
+    for (let i = 0; i < uv.count; i++) {
+      uvs[i * 2] = uv.getX(i);
+      uvs[i * 2 + 1] = uv.getY(i);
+    }
+  }
+
+  return { kind: 'mesh', positions, indices, normals, colors, uvs };
+}
+
+function convertMaterial(material: Material, index: number): RhinoMaterial {
+  const standard = material as MeshStandardMaterial;
+  const hex = (value?: { getHexString: (colorSpace?: string) => string }) =>
+    value ? `#${value.getHexString(SRGBColorSpace)}` : '#000000';
+  const baseColor = standard.color ? hex(standard.color) : '#ffffff';
+  const roughness = standard.roughness ?? 1;
+
+  return {
+    index,
+    id: material.uuid,
+    name: material.name || `Material ${index + 1}`,
+    diffuseColor: baseColor,
+    specularColor: '#ffffff',
+    emissionColor: hex(standard.emissive),
+    shine: 1 - roughness,
+    transparency: material.transparent ? 1 - material.opacity : 0,
+    pbr: standard.isMeshStandardMaterial
+      ? {
+          baseColor,
+          metallic: standard.metalness,
+          roughness,
+          opacity: material.transparent ? material.opacity : 1
+        }
+      : undefined,
+    textures: {
+      diffuse: convertTexture(standard.map),
+      bump: convertTexture(standard.bumpMap ?? standard.normalMap)
+    }
+  };
+}
+
+// Decoded images are turned back into data URLs, which is how the viewer loads embedded textures
+function convertTexture(texture: Texture | null | undefined): RhinoTexture | undefined {
+  const image = texture?.image as CanvasImageSource & { width?: number; height?: number } | undefined;
+  if (!texture || !image?.width || typeof document === 'undefined') return undefined;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.drawImage(image, 0, 0);
+
+  return {
+    fileName: texture.name || `${texture.uuid}.png`,
+    url: canvas.toDataURL('image/png'),
+    repeat: [texture.repeat.x, texture.repeat.y],
+    offset: [texture.offset.x, texture.offset.y],
+    rotation: texture.rotation
+  };
+}
+
+function stringValues(userData: Record<string, unknown>): Record<string, string> | undefined {
+  const entries = Object.entries(userData).filter(([, value]) => typeof value === 'string' || typeof value === 'number');
+  return entries.length > 0 ? Object.fromEntries(entries.map(([key, value]) => [key, String(value)])) : undefined;
+}
+
+const checkAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Loading was cancelled', 'AbortError');
+};
+
+// Mesh formats load in one go; the callbacks still fire so the viewer treats them like a streamed 3dm
+function meshLoader(
+  loader: Omit<ModelLoader, 'load' | 'remeshable'>,
+  parse: (file: File) => Promise<Object3D>,
+  conversion: SceneConversionOptions
+): ModelLoader {
+  return {
+    ...loader,
+    remeshable: false,
+    load: async (file, { signal, onDocument, onBlocks, onObjects, onProgress }) => {
+      const root = await parse(file);
+      checkAborted(signal);
+      const scene = sceneFromObject3D(root, conversion);
+      const { objects, blocks, skipped, ...info } = scene;
+      onDocument?.(info);
+      onBlocks?.(blocks);
+      onObjects?.(objects);
+      onProgress?.({ processed: objects.length, total: objects.length });
+      return scene;
+    }
+  };
+}
+
+const singleMesh = (geometry: BufferGeometry, name: string) => {
+  const mesh = new Mesh(geometry);
+  mesh.name = name;
+  return mesh;
+};
+
+const baseName = (file: File) => file.name.replace(/\.[^.]+$/, '');
+
+registerModelLoader({
+  id: '3dm',
+  label: 'Rhino 3D',
+  extensions: ['.3dm'],
+  detect: (header) => header.startsWith('3D Geometry File Format'),
+  remeshable: true,
+  load: (file, options) => rhinoService.parse3dmFile(file, options)
+});
+
+// Binary STL has no signature, and ASCII STL files start with 'solid'; the extension decides
+registerModelLoader(meshLoader(
+  { id: 'stl', label: 'STL', extensions: ['.stl'] },
+  async (file) => singleMesh(new STLLoader().parse(await file.arrayBuffer()), baseName(file)),
+  { upAxisY: false, materials: false }
+));
+
+registerModelLoader(meshLoader(
+  { id: 'ply', label: 'PLY', extensions: ['.ply'], detect: (header) => header.startsWith('ply') },
+  async (file) => singleMesh(new PLYLoader().parse(await file.arrayBuffer()), baseName(file)),
+  { upAxisY: false, materials: false }
+));
+
+registerModelLoader(meshLoader(
+  { id: 'obj', label: 'OBJ', extensions: ['.obj'] },
+  async (file) => new OBJLoader().parse(await file.text()),
+  { upAxisY: true, materials: true }
+));
+
+// Only self-contained glTF loads: GLB, or .gltf with its buffers and images embedded as data URIs
+registerModelLoader(meshLoader(
+  { id: 'gltf', label: 'glTF', extensions: ['.glb', '.gltf'], detect: (header) => header.startsWith('glTF') },
+  async (file) => (await new GLTFLoader().parseAsync(await file.arrayBuffer(), '')).scene,
+  { upAxisY: true, materials: true }
+));
@@ -1,24 +1,108 @@
 // Rhino Compute Service for processing 3DM files
+import type { GeometryBase, RhinoModule } from "rhino3dm";
+import {
+  extractDocumentInfo,
+  extractDocumentObjects,
+  extractGeometry,
+  objectTypeName,
+  loadRhino3dm,
+  parseDocument,
+  type MeshingOptions,
+  type RhinoBlock,
+  type RhinoDocumentInfo,
+  type RhinoObject,
+  type RhinoScene,
+  type SkippedObjects
+} from "./rhinoDocument";
+import { DEFAULT_MESHING_OPTIONS } from "./rhinoMeshing";
+import type { ParserRequest, ParserResponse } from "@/workers/rhino3dm.worker";
 
-export interface RhinoGeometry {
-  vertices: number[][];
-  faces: number[][];
-  normals?: number[][];
-  colors?: number[][];
-  materials?: any[];
+export type {
+  ColorSource,
+  MaterialSource,
+  MeshingOptions,
+  RhinoBlock,
+  RhinoBlockPart,
+  RhinoDocumentInfo,
+  RhinoGeometry,
+  RhinoInstance,
+  RhinoLayer,
+  RhinoMaterial,
+  RhinoObject,
+  RhinoObjectAttributes,
+  RhinoScene,
+  RhinoTexture,
+  RhinoView,
+  SkippedObjects
+} from "./rhinoDocument";
+
+// A single item in a Grasshopper data tree branch, as returned by Rhino Compute.
+// `data` is JSON-encoded: geometry items hold an encoded CommonObject,
+// File3dm items hold the base64 bytes of a whole 3dm document.
+export interface ComputeDataItem {
+  type: string;
+  data: string;
+}
+
+export interface ComputeOutputParam {
+  ParamName: string;
+  InnerTree: Record<string, ComputeDataItem[]>;
+}
+
+export interface ParseProgress {
+  processed: number;
+  total: number;
+}
+
+export interface ParseOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ParseProgress) => void;
+  // Receives the document tables before any object is streamed
+  onDocument?: (info: RhinoDocumentInfo) => void;
+  // Receives the block definitions before the instances that refer to them
+  onBlocks?: (blocks: RhinoBlock[]) => void;
+  // Receives objects as soon as they are decoded, before the returned promise settles
+  onObjects?: (objects: RhinoObject[]) => void;
+  // Tessellation settings for local parsing; Compute returns meshes of its own
+  meshing?: MeshingOptions;
+}
+
+export interface ComputeConfig {
+  url: string;
+  apiKey: string;
 }
 
-export interface RhinoObject {
-  id: string;
-  geometry: RhinoGeometry;
-  attributes: any;
-  objectType: string;
+export interface ComputeHealth {
+  status: 'unknown' | 'checking' | 'online' | 'offline';
+  url: string;
+  version?: string;
+  latencyMs?: number;
+  error?: string;
+  checkedAt?: number;
 }
 
+export interface ComputeResponse {
+  values: ComputeOutputParam[];
+  errors?: string[];
+  warnings?: string[];
+}
+
+const COMPUTE_CONFIG_STORAGE_KEY = 'fleetvision.rhinoCompute';
+
+// Point VITE_RHINO_COMPUTE_URL at scripts/compute-replay-server.mjs to test offline
+const DEFAULT_COMPUTE_URL = import.meta.env.VITE_RHINO_COMPUTE_URL || 'http://localhost:6500';
+
 export class RhinoComputeService {
   private static instance: RhinoComputeService;
-  private computeUrl: string = 'http://localhost:6500'; // Rhino Compute server URL
-  private rhinoModule: any = null;
+  private computeConfig: ComputeConfig = this.loadComputeConfig();
+  private computeHealth: ComputeHealth = { status: 'unknown', url: this.computeConfig.url };
+  private healthListeners: Array<(health: ComputeHealth) => void> = [];
+  private rhinoModule: RhinoModule | null = null;
+  private parserWorker: Worker | null = null;
+  private parserJobId = 0;
+  private cancelActiveParse: (() => void) | null = null;
+  // Document tables of the model the parser worker currently holds, if any
+  private localDocumentInfo: RhinoDocumentInfo | null = null;
   
   static getInstance(): RhinoComputeService {
     if (!RhinoComputeService.instance) {
@@ -36,54 +120,9 @@ export class RhinoComputeService {
     try {
       console.log('=== RhinoService: Starting rhino3dm initialization (dynamic import) ===');
       
-      // Check if we're in a browser environment
-      if (typeof window === 'undefined') {
-        throw new Error('rhino3dm requires a browser environment');
-      }
-      
-      console.log('=== RhinoService: Browser environment confirmed ===');
-      
-      // Use dynamic import to load rhino3dm
+      // Use dynamic import to load rhino3dm; the WASM build runs in browsers and Node alike
       console.log('=== RhinoService: Dynamic importing rhino3dm ===');
-      const rhinoModule = await import('rhino3dm');
-      
-      console.log('=== RhinoService: rhino3dm module loaded ===');
-      console.log('Module keys:', Object.keys(rhinoModule));
-      console.log('Module default:', rhinoModule.default);
-      console.log('Module default type:', typeof rhinoModule.default);
-      
-      // Try different ways to access the initializer
-      let rhinoInitializer;
-      
-      if (typeof rhinoModule.default === 'function') {
-        console.log('=== RhinoService: Using rhinoModule.default ===');
-        rhinoInitializer = rhinoModule.default;
-      } else if (typeof (rhinoModule as any).rhino3dm === 'function') {
-        console.log('=== RhinoService: Using rhinoModule.rhino3dm ===');
-        rhinoInitializer = (rhinoModule as any).rhino3dm;
-      } else {
-        // Check all exports for functions
-        console.log('=== RhinoService: Searching all exports for functions ===');
-        const allKeys = Object.keys(rhinoModule);
-        console.log('All module keys:', allKeys);
-        
-        for (const key of allKeys) {
-          const value = (rhinoModule as any)[key];
-          console.log(`Key: ${key}, Type: ${typeof value}`);
-          if (typeof value === 'function') {
-            console.log(`=== RhinoService: Found function export: ${key} ===`);
-            rhinoInitializer = value;
-            break;
-          }
-        }
-        
-        if (!rhinoInitializer) {
-          throw new Error('Could not find any rhino3dm initializer function');
-        }
-      }
-      
-      console.log('=== RhinoService: Calling rhino3dm initializer ===');
-      this.rhinoModule = await rhinoInitializer();
+      this.rhinoModule = await loadRhino3dm();
       console.log('=== RhinoService: rhino3dm WASM module initialized successfully ===');
       console.log('Module type:', typeof this.rhinoModule);
       
@@ -92,7 +131,9 @@ export class RhinoComputeService {
       }
       
       // Test Rhino Compute connection
-      await this.testComputeConnection();
+      if (this.computeHealth.status === 'unknown') {
+        await this.checkComputeHealth();
+      }
       
       return this.rhinoModule;
     } catch (error) {
@@ -101,35 +142,126 @@ export class RhinoComputeService {
     }
   }
 
-  private async testComputeConnection(): Promise<void> {
+  getComputeConfig(): ComputeConfig {
+    return { ...this.computeConfig };
+  }
+
+  setComputeConfig(config: ComputeConfig) {
+    this.computeConfig = { url: config.url.trim().replace(/\/+$/, ''), apiKey: config.apiKey.trim() };
+    localStorage.setItem(COMPUTE_CONFIG_STORAGE_KEY, JSON.stringify(this.computeConfig));
+    this.setComputeHealth({ status: 'unknown', url: this.computeConfig.url });
+  }
+
+  getComputeHealth(): ComputeHealth {
+    return this.computeHealth;
+  }
+
+  subscribeComputeHealth(listener: (health: ComputeHealth) => void): () => void {
+    this.healthListeners.push(listener);
+    return () => {
+      this.healthListeners = this.healthListeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Probes `/version` on the given (or configured) server. Only updates the
+  // shared health status when checking the configured server.
+  async checkComputeHealth(config: ComputeConfig = this.computeConfig): Promise<ComputeHealth> {
+    const url = config.url.trim().replace(/\/+$/, '');
+    const isActiveConfig = url === this.computeConfig.url && config.apiKey.trim() === this.computeConfig.apiKey;
+
+    if (isActiveConfig) {
+      this.setComputeHealth({ ...this.computeHealth, status: 'checking', url });
+    }
+
+    const startedAt = performance.now();
+    let health: ComputeHealth;
+
     try {
-      console.log('=== RhinoService: Testing Rhino Compute connection to', this.computeUrl, '===');
-      const response = await fetch(`${this.computeUrl}/version`, {
+      console.log('=== RhinoService: Testing Rhino Compute connection to', url, '===');
+      const response = await fetch(`${url}/version`, {
         method: 'GET',
-        headers: {
-          'Accept': 'text/plain'
-        }
+        headers: this.computeHeaders(config, { 'Accept': 'application/json, text/plain' }),
+        signal: AbortSignal.timeout(5000)
       });
-      
+      const latencyMs = Math.round(performance.now() - startedAt);
+
       console.log('=== RhinoService: Compute response status:', response.status, response.statusText, '===');
-      
+
       if (response.ok) {
-        const version = await response.text();
+        const version = this.formatComputeVersion(await response.text());
         console.log('=== RhinoService: Rhino Compute connected successfully, version:', version, '===');
+        health = { status: 'online', url, version, latencyMs, checkedAt: Date.now() };
       } else {
         console.warn('=== RhinoService: Rhino Compute connection test failed, status:', response.status, '===');
-        console.warn('=== RhinoService: Will fall back to local processing ===');
+        health = {
+          status: 'offline',
+          url,
+          latencyMs,
+          error: response.status === 401 || response.status === 403
+            ? 'API key rejected'
+            : `HTTP ${response.status} ${response.statusText}`,
+          checkedAt: Date.now()
+        };
       }
     } catch (error) {
       console.warn('=== RhinoService: Could not connect to Rhino Compute server ===');
       console.warn('Error:', error);
-      console.warn('=== RhinoService: Will use local processing only ===');
+      health = {
+        status: 'offline',
+        url,
+        error: error instanceof Error ? error.message : String(error),
+        checkedAt: Date.now()
+      };
     }
+
+    if (isActiveConfig) {
+      this.setComputeHealth(health);
+    }
+    return health;
   }
 
-  async parse3dmFile(file: File): Promise<RhinoObject[]> {
+  private setComputeHealth(health: ComputeHealth) {
+    this.computeHealth = health;
+    this.healthListeners.forEach((listener) => listener(health));
+  }
+
+  private loadComputeConfig(): ComputeConfig {
+    const fallback = { url: DEFAULT_COMPUTE_URL, apiKey: '' };
+    try {
+      const stored = typeof localStorage !== 'undefined'
+        ? localStorage.getItem(COMPUTE_CONFIG_STORAGE_KEY)
+        : null;
+      return stored ? { ...fallback, ...JSON.parse(stored) } : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private computeHeaders(config: ComputeConfig, headers: Record<string, string> = {}): Record<string, string> {
+    return config.apiKey ? { ...headers, 'RhinoComputeKey': config.apiKey } : headers;
+  }
+
+  // Compute answers `/version` with JSON ({ rhino, compute, git_sha }) on
+  // current releases and plain text on older ones
+  private formatComputeVersion(body: string): string {
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed && typeof parsed === 'object') {
+        return [parsed.rhino && `Rhino ${parsed.rhino}`, parsed.compute && `Compute ${parsed.compute}`]
+          .filter(Boolean)
+          .join(' / ') || body;
+      }
+      return String(parsed);
+    } catch {
+      return body.trim();
+    }
+  }
+
+  // Starting a new parse cancels the one still running
+  async parse3dmFile(file: File, options: ParseOptions = {}): Promise<RhinoScene> {
     console.log('=== RhinoService: parse3dmFile called ===');
     console.log('File:', file.name, file.size, 'bytes');
+    this.localDocumentInfo = null;
     
     try {
       console.log('=== RhinoService: Initializing rhino3dm ===');
@@ -141,18 +273,29 @@ export class RhinoComputeService {
       throw new Error(`Failed to initialize rhino3dm: ${initError instanceof Error ? initError.message : initError}`);
     }
     
-    // Try Rhino Compute first, then fallback to local processing
+    // Try Rhino Compute first when it is reachable, then fallback to local processing
+    if (this.computeHealth.status === 'offline') {
+      console.log('=== RhinoService: Rhino Compute offline, skipping ===');
+      return this.parseLocally(file, options);
+    }
+
     try {
       console.log('=== RhinoService: Trying Rhino Compute ===');
-      const objects = await this.parseWithCompute(file);
-      if (objects && objects.length > 0) {
+      const scene = await this.parseWithCompute(file, options.signal);
+      const { objects, blocks, skipped, ...info } = scene;
+      if (objects.length > 0) {
         console.log('=== RhinoService: Successfully parsed with Rhino Compute ===');
         console.log('Objects found:', objects.length);
-        return objects;
+        options.onDocument?.(info);
+        options.onBlocks?.(blocks);
+        options.onObjects?.(objects);
+        options.onProgress?.({ processed: objects.length, total: objects.length });
+        return scene;
       } else {
         console.log('=== RhinoService: Rhino Compute returned no objects ===');
       }
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.warn('=== RhinoService: Rhino Compute parsing failed ===');
       console.warn('Compute error:', error);
       console.warn('=== RhinoService: Falling back to local processing ===');
@@ -160,18 +303,20 @@ export class RhinoComputeService {
     
     // Fallback to local rhino3dm processing
     console.log('=== RhinoService: Starting local processing ===');
-    return this.parseLocally(file);
+    return this.parseLocally(file, options);
   }
 
-  private async parseWithCompute(file: File): Promise<RhinoObject[]> {
+  private async parseWithCompute(file: File, signal?: AbortSignal): Promise<RhinoScene> {
     const formData = new FormData();
     formData.append('file', file);
     
     try {
       console.log('Sending file to Rhino Compute for processing...');
-      const response = await fetch(`${this.computeUrl}/grasshopper`, {
+      const response = await fetch(`${this.computeConfig.url}/grasshopper`, {
         method: 'POST',
+        headers: this.computeHeaders(this.computeConfig),
         body: formData,
+        signal,
       });
       
       if (!response.ok) {
@@ -189,151 +334,241 @@ export class RhinoComputeService {
     }
   }
 
-  private processComputeResult(result: any): RhinoObject[] {
-    // This is a placeholder - actual implementation would depend on 
-    // the specific Grasshopper definition and compute response format
+  // Geometry outputs are collected into one scene; document tables come from
+  // the first File3dm output, if any
+  private processComputeResult(result: ComputeResponse): RhinoScene {
     console.log('Processing Rhino Compute result...');
-    return [];
-  }
 
-  private async parseLocally(file: File): Promise<RhinoObject[]> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = async (event) => {
-        try {
-          const arrayBuffer = event.target?.result as ArrayBuffer;
-          const arr = new Uint8Array(arrayBuffer);
-          
-          console.log('Parsing 3DM file locally with rhino3dm...');
-          // Parse the 3DM file using rhino3dm
-          const doc = this.rhinoModule.File3dm.fromByteArray(arr);
-          const objects: RhinoObject[] = [];
-          
-          // Extract objects from the document
-          const objectTable = doc.objects();
-          const count = objectTable.count;
-          console.log(`Found ${count} objects in 3DM file`);
-          
-          for (let i = 0; i < count; i++) {
-            const rhinoObject = objectTable.get(i);
-            const geometry = rhinoObject.geometry();
-            
-            if (geometry) {
-              const meshGeometry = this.extractMeshGeometry(geometry);
-              if (meshGeometry) {
-                objects.push({
-                  id: rhinoObject.id.toString(),
-                  geometry: meshGeometry,
-                  attributes: this.extractAttributes(rhinoObject),
-                  objectType: geometry.objectType
-                });
-              }
+    if (!result || !Array.isArray(result.values)) {
+      throw new Error('Unexpected Rhino Compute response: missing "values"');
+    }
+
+    result.errors?.forEach((message) => console.error('Rhino Compute error:', message));
+    result.warnings?.forEach((message) => console.warn('Rhino Compute warning:', message));
+
+    const objects: RhinoObject[] = [];
+    const blocks: RhinoBlock[] = [];
+    const skipped: SkippedObjects = {};
+    let info: RhinoDocumentInfo | null = null;
+
+    for (const param of result.values) {
+      for (const [path, items] of Object.entries(param.InnerTree ?? {})) {
+        items.forEach((item, index) => {
+          try {
+            const decoded = this.decodeComputeItem(item, `${param.ParamName}${path}[${index}]`);
+            objects.push(...decoded.objects);
+            blocks.push(...decoded.blocks);
+            for (const [objectType, count] of Object.entries(decoded.skipped)) {
+              skipped[objectType] = (skipped[objectType] ?? 0) + count;
             }
+            info ??= decoded.info;
+          } catch (error) {
+            console.warn(`Could not decode ${item.type} item in ${param.ParamName}${path}:`, error);
           }
-          
-          doc.delete();
-          console.log(`Successfully extracted ${objects.length} mesh objects`);
-          resolve(objects);
-        } catch (error) {
-          console.error('Error parsing 3DM file locally:', error);
-          reject(error);
-        }
-      };
-      
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsArrayBuffer(file);
-    });
+        });
+      }
+    }
+
+    console.log(`Decoded ${objects.length} objects from Rhino Compute response`);
+    return { ...(info ?? { layers: [], materials: [], unitSystem: 'None', tolerance: null, views: [] }), objects, blocks, skipped };
   }
 
-  private extractMeshGeometry(geometry: any): RhinoGeometry | null {
-    try {
-      let mesh = null;
-      
-      // Try to get mesh directly or convert to mesh
-      if (geometry.objectType === this.rhinoModule.ObjectType.Mesh) {
-        mesh = geometry;
-      } else if (geometry.objectType === this.rhinoModule.ObjectType.Brep) {
-        // Convert Brep to mesh
-        const meshParams = this.rhinoModule.MeshingParameters.default;
-        mesh = this.rhinoModule.Mesh.createFromBrep(geometry, meshParams);
-      } else if (geometry.objectType === this.rhinoModule.ObjectType.Surface) {
-        // Convert Surface to mesh
-        const meshParams = this.rhinoModule.MeshingParameters.default;
-        mesh = this.rhinoModule.Mesh.createFromSurface(geometry, meshParams);
+  private decodeComputeItem(
+    item: ComputeDataItem,
+    itemId: string
+  ): Pick<RhinoScene, 'objects' | 'blocks' | 'skipped'> & { info: RhinoDocumentInfo | null } {
+    // Compute wraps every value in an extra layer of JSON encoding
+    const payload = JSON.parse(item.data);
+
+    if (item.type.endsWith('File3dm')) {
+      const bytes = this.base64ToBytes(typeof payload === 'string' ? payload : payload.data);
+      const doc = this.rhinoModule.File3dm.fromByteArray(bytes);
+      if (!doc) {
+        throw new Error('Invalid 3dm document');
       }
-      
-      if (!mesh) return null;
-      
-      // Extract vertices
-      const vertices: number[][] = [];
-      const vertexCount = mesh.vertices().count;
-      for (let i = 0; i < vertexCount; i++) {
-        const vertex = mesh.vertices().get(i);
-        vertices.push([vertex[0], vertex[1], vertex[2]]);
+      try {
+        return {
+          ...extractDocumentObjects(this.rhinoModule, doc),
+          info: extractDocumentInfo(this.rhinoModule, doc)
+        };
+      } finally {
+        doc.delete();
       }
-      
-      // Extract faces
-      const faces: number[][] = [];
-      const faceCount = mesh.faces().count;
-      for (let i = 0; i < faceCount; i++) {
-        const face = mesh.faces().get(i);
-        if (face.isTriangle) {
-          faces.push([face.a, face.b, face.c]);
-        } else {
-          // Convert quad to triangles
-          faces.push([face.a, face.b, face.c]);
-          faces.push([face.a, face.c, face.d]);
+    }
+
+    if (!item.type.startsWith('Rhino.Geometry.')) {
+      // Strings, numbers and other non-geometry outputs are not rendered
+      return { objects: [], blocks: [], skipped: {}, info: null };
+    }
+
+    // Rhino.Geometry.* payloads always decode to geometry
+    const geometry = this.rhinoModule.CommonObject.decode(payload) as GeometryBase;
+    if (!geometry) {
+      throw new Error('Invalid encoded geometry');
+    }
+
+    const objectType = objectTypeName(this.rhinoModule, geometry.objectType);
+    const extracted = extractGeometry(this.rhinoModule, geometry);
+    if (!extracted) return { objects: [], blocks: [], skipped: { [objectType]: 1 }, info: null };
+
+    return {
+      objects: [{
+        id: itemId,
+        geometry: extracted,
+        attributes: { name: itemId, visible: true },
+        objectType
+      }],
+      blocks: [],
+      skipped: {},
+      info: null
+    };
+  }
+
+  private base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  // Parses in a dedicated worker so large models do not block the UI
+  private async parseLocally(file: File, options: ParseOptions = {}): Promise<RhinoScene> {
+    this.cancelActiveParse?.();
+
+    const buffer = await file.arrayBuffer();
+    if (options.signal?.aborted) {
+      throw new DOMException('Parsing cancelled', 'AbortError');
+    }
+
+    if (typeof Worker === 'undefined') {
+      return this.parseInProcess(buffer, options);
+    }
+
+    console.log('Parsing 3DM file locally with rhino3dm worker...');
+
+    const jobId = ++this.parserJobId;
+    const meshing = options.meshing ?? DEFAULT_MESHING_OPTIONS;
+    const scene = await this.runParserJob({ type: 'parse', jobId, buffer, meshing }, [buffer], options);
+    const { objects, blocks, skipped, ...info } = scene;
+    this.localDocumentInfo = info;
+    return scene;
+  }
+
+  // Without workers (e.g. in Node) the file is parsed on this thread, and callbacks get it all at once.
+  // No document is kept, so the result cannot be re-meshed.
+  private parseInProcess(buffer: ArrayBuffer, { onProgress, onDocument, onBlocks, onObjects, meshing }: ParseOptions): RhinoScene {
+    console.log('Parsing 3DM file locally with rhino3dm on the main thread...');
+    const scene = parseDocument(this.rhinoModule, new Uint8Array(buffer), meshing ?? DEFAULT_MESHING_OPTIONS);
+    const { objects, blocks, skipped, ...info } = scene;
+    onDocument?.(info);
+    onBlocks?.(blocks);
+    onObjects?.(objects);
+    onProgress?.({ processed: objects.length, total: objects.length });
+    return scene;
+  }
+
+  // Re-extracts the model from the previous local parse with new meshing options;
+  // the worker still holds the document, so the file is not read again
+  async remesh(meshing: MeshingOptions, options: Omit<ParseOptions, 'meshing' | 'onDocument'> = {}): Promise<RhinoScene> {
+    if (!this.localDocumentInfo) {
+      throw new Error('Only models parsed locally can be re-meshed');
+    }
+    this.cancelActiveParse?.();
+
+    const jobId = ++this.parserJobId;
+    return this.runParserJob({ type: 'remesh', jobId, meshing }, [], options);
+  }
+
+  private runParserJob(
+    request: ParserRequest,
+    transfer: Transferable[],
+    { signal, onProgress, onDocument, onBlocks, onObjects }: ParseOptions
+  ): Promise<RhinoScene> {
+    const worker = this.getParserWorker();
+    const { jobId } = request;
+    const objects: RhinoObject[] = [];
+    let blocks: RhinoBlock[] = [];
+    let info: RhinoDocumentInfo = this.localDocumentInfo ?? { layers: [], materials: [], unitSystem: 'None', tolerance: null, views: [] };
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        worker.removeEventListener('message', handleMessage);
+        worker.removeEventListener('error', handleError);
+        signal?.removeEventListener('abort', cancel);
+        if (this.cancelActiveParse === cancel) {
+          this.cancelActiveParse = null;
         }
-      }
-      
-      // Extract normals if available
-      let normals: number[][] | undefined;
-      if (mesh.normals().count > 0) {
-        normals = [];
-        for (let i = 0; i < mesh.normals().count; i++) {
-          const normal = mesh.normals().get(i);
-          normals.push([normal[0], normal[1], normal[2]]);
+      };
+
+      // The worker is busy inside synchronous WASM calls, so the only way to stop a parse is to
+      // terminate it. A cancelled re-mesh is left to finish instead: its messages are ignored and
+      // the worker keeps the loaded document for the next one.
+      const cancel = () => {
+        cleanup();
+        if (request.type === 'parse') {
+          worker.terminate();
+          if (this.parserWorker === worker) {
+            this.parserWorker = null;
+          }
         }
-      }
-      
-      // Extract colors if available
-      let colors: number[][] | undefined;
-      if (mesh.vertexColors().count > 0) {
-        colors = [];
-        for (let i = 0; i < mesh.vertexColors().count; i++) {
-          const color = mesh.vertexColors().get(i);
-          colors.push([color.r / 255, color.g / 255, color.b / 255, color.a / 255]);
+        reject(new DOMException('Parsing cancelled', 'AbortError'));
+      };
+
+      const handleMessage = (event: MessageEvent<ParserResponse>) => {
+        const message = event.data;
+        if (message.jobId !== jobId) return;
+
+        switch (message.type) {
+          case 'document':
+            info = message.info;
+            onDocument?.(info);
+            break;
+          case 'blocks':
+            blocks = message.blocks;
+            onBlocks?.(blocks);
+            break;
+          case 'progress': {
+            const batch = message.objects;
+            objects.push(...batch);
+            if (batch.length > 0) onObjects?.(batch);
+            onProgress?.({ processed: message.processed, total: message.total });
+            break;
+          }
+          case 'done':
+            cleanup();
+            console.log(`Successfully extracted ${objects.length} objects`);
+            resolve({ ...info, objects, blocks, skipped: message.skipped });
+            break;
+          case 'error':
+            cleanup();
+            console.error('Error parsing 3DM file locally:', message.message);
+            reject(new Error(message.message));
+            break;
         }
-      }
-      
-      mesh.delete();
-      
-      return {
-        vertices,
-        faces,
-        normals,
-        colors
       };
-    } catch (error) {
-      console.error('Error extracting mesh geometry:', error);
-      return null;
-    }
-  }
-  
-  private extractAttributes(rhinoObject: any): any {
-    try {
-      const attributes = rhinoObject.attributes();
-      return {
-        layer: attributes.layerIndex,
-        material: attributes.materialIndex,
-        color: attributes.drawColor,
-        visible: attributes.visible,
-        name: attributes.name || ''
+
+      const handleError = (event: ErrorEvent) => {
+        cleanup();
+        this.parserWorker = null;
+        this.localDocumentInfo = null;
+        worker.terminate();
+        reject(new Error(event.message || 'rhino3dm worker crashed'));
       };
-    } catch (error) {
-      return {};
-    }
+
+      worker.addEventListener('message', handleMessage);
+      worker.addEventListener('error', handleError);
+      signal?.addEventListener('abort', cancel);
+      this.cancelActiveParse = cancel;
+
+      worker.postMessage(request, transfer);
+    });
+  }
+
+  private getParserWorker(): Worker {
+    this.parserWorker ??= new Worker(new URL('../workers/rhino3dm.worker.ts', import.meta.url), { type: 'module' });
+    return this.parserWorker;
   }
 }
 
@@ -0,0 +1,901 @@
+// rhino3dm document walking shared by the main thread (Compute results)
+// and the parser worker (local files). Nothing in here touches the DOM.
+import { Box3, Matrix4, Vector3 } from "three";
+import type {
+  AnnotationBase,
+  Brep,
+  BrepFace,
+  CommonObject,
+  Curve,
+  Extrusion,
+  File3dm,
+  File3dmObject,
+  File3dmViewTable,
+  GeometryBase,
+  InstanceReference,
+  Mesh,
+  Point,
+  PointCloud,
+  RhinoModule,
+  SubD,
+  Surface,
+  TextDot,
+  Texture
+} from "rhino3dm";
+import {
+  DEFAULT_MESHING_OPTIONS,
+  createIndexArray,
+  mergeGeometries,
+  sampleCurve,
+  subdivisionLevels,
+  tessellateExtrusion,
+  tessellateSurface,
+  type MeshingOptions
+} from "./rhinoMeshing";
+
+export type { MeshingOptions } from "./rhinoMeshing";
+
+// How an object is drawn: shaded triangles, polylines, loose points, a screen-space label
+// or a block instance, whose positions are the 8 corners of its world bounding box
+export type RhinoGeometryKind = 'mesh' | 'curve' | 'points' | 'annotation' | 'instance';
+
+// Flat, transferable geometry data: 3 floats per vertex/normal, 4 per colour, 2 per texture coordinate.
+// Indices hold 3 per triangle for meshes, 2 per segment for curves and are empty otherwise;
+// they are 16-bit when every vertex fits, 32-bit otherwise.
+export interface RhinoGeometry {
+  kind: RhinoGeometryKind;
+  positions: Float32Array;
+  indices: Uint16Array | Uint32Array;
+  normals?: Float32Array;
+  colors?: Float32Array;
+  uvs?: Float32Array;
+  // Label of annotations, anchored at the first position
+  text?: string;
+}
+
+// Where an object takes its display colour or render material from, as in Rhino's object properties
+export type ColorSource = 'layer' | 'object' | 'material' | 'parent';
+export type MaterialSource = 'layer' | 'object' | 'parent';
+
+export interface RhinoObjectAttributes {
+  layer?: number;
+  material?: number;
+  materialSource?: MaterialSource;
+  color?: { r: number; g: number; b: number; a: number };
+  colorSource?: ColorSource;
+  visible?: boolean;
+  name?: string;
+  // Attribute and geometry user text; attribute values win on duplicate keys
+  userStrings?: Record<string, string>;
+}
+
+// Placement of a block instance; the block's geometry is shared through RhinoScene.blocks
+export interface RhinoInstance {
+  blockId: string;
+  blockName: string;
+  // Column-major 4x4 matrix from block to world space, as used by three's Matrix4
+  transform: number[];
+}
+
+export interface RhinoObject {
+  id: string;
+  geometry: RhinoGeometry;
+  attributes: RhinoObjectAttributes;
+  objectType: string;
+  instance?: RhinoInstance;
+}
+
+export interface RhinoBlockPart {
+  geometry: RhinoGeometry;
+  attributes: RhinoObjectAttributes;
+  objectType: string;
+  // Column-major 4x4 matrix from the part to block space
+  transform: number[];
+}
+
+// A block (instance definition) with nested blocks flattened into its parts
+export interface RhinoBlock {
+  id: string;
+  name: string;
+  parts: RhinoBlockPart[];
+  // Block-space bounding box of all parts; null when the block is empty
+  bounds: { min: number[]; max: number[] } | null;
+}
+
+export interface RhinoLayer {
+  index: number;
+  id: string;
+  name: string;
+  fullPath: string;
+  color: string;
+  parentIndex: number | null;
+  visible: boolean;
+  locked: boolean;
+  // Render material index, -1 for the default material
+  material: number;
+}
+
+export interface RhinoTexture {
+  fileName: string;
+  // Data URL of the image when it is embedded in the 3dm file
+  url?: string;
+  repeat: [number, number];
+  offset: [number, number];
+  rotation: number;
+}
+
+// Rhino's classic material, plus the physically based parameters when the material has them
+export interface RhinoMaterial {
+  index: number;
+  id: string;
+  name: string;
+  diffuseColor: string;
+  specularColor: string;
+  emissionColor: string;
+  // 0 (matte) to 1 (glossy)
+  shine: number;
+  // 0 (opaque) to 1 (fully transparent)
+  transparency: number;
+  pbr?: {
+    baseColor: string;
+    metallic: number;
+    roughness: number;
+    opacity: number;
+  };
+  textures: {
+    diffuse?: RhinoTexture;
+    bump?: RhinoTexture;
+    transparency?: RhinoTexture;
+  };
+}
+
+// A camera saved in the file: one of its named views, or a model viewport such as 'Perspective'
+export interface RhinoView {
+  name: string;
+  source: 'named' | 'viewport';
+  location: [number, number, number];
+  direction: [number, number, number];
+  up: [number, number, number];
+  // Null when the file does not record what the camera looks at
+  target: [number, number, number] | null;
+  parallel: boolean;
+  // Half of the smaller field of view angle (radians)
+  cameraAngle: number;
+}
+
+// Document tables that are known before any object has been extracted
+export interface RhinoDocumentInfo {
+  layers: RhinoLayer[];
+  materials: RhinoMaterial[];
+  // Name of the rhino3dm UnitSystem member, e.g. 'Millimeters'
+  unitSystem: string;
+  // Absolute tolerance in model units; null when the source has none
+  tolerance: number | null;
+  // Named views first, then the model viewports
+  views: RhinoView[];
+}
+
+// Number of objects per object type that could not be converted for display
+export type SkippedObjects = Record<string, number>;
+
+export interface RhinoScene extends RhinoDocumentInfo {
+  objects: RhinoObject[];
+  blocks: RhinoBlock[];
+  skipped: SkippedObjects;
+}
+
+const EMPTY_GUID = '00000000-0000-0000-0000-000000000000';
+
+const IDENTITY_TRANSFORM = new Matrix4().toArray();
+
+// Rhino stores shine on a 0-255 scale
+const MAX_SHINE = 255;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  bmp: 'image/bmp',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff'
+};
+
+export async function loadRhino3dm(): Promise<RhinoModule> {
+  const rhinoModule = await import('rhino3dm');
+
+  // The UMD build exposes its initializer under different names depending on the bundler
+  let rhinoInitializer: () => Promise<RhinoModule>;
+
+  if (typeof rhinoModule.default === 'function') {
+    rhinoInitializer = rhinoModule.default;
+  } else {
+    const candidates = rhinoModule as unknown as Record<string, unknown>;
+    const key = typeof candidates.rhino3dm === 'function'
+      ? 'rhino3dm'
+      : Object.keys(candidates).find((k) => typeof candidates[k] === 'function');
+
+    if (!key) {
+      throw new Error('Could not find any rhino3dm initializer function');
+    }
+    rhinoInitializer = candidates[key] as () => Promise<RhinoModule>;
+  }
+
+  return rhinoInitializer();
+}
+
+// Converts a whole 3DM file in one go, on the calling thread. Used where there is no
+// parser worker, e.g. in Node.
+export function parseDocument(
+  rhino: RhinoModule,
+  bytes: Uint8Array,
+  meshing: MeshingOptions = DEFAULT_MESHING_OPTIONS,
+  onProgress?: (object: RhinoObject | null, processed: number, total: number) => void
+): RhinoScene {
+  const doc = rhino.File3dm.fromByteArray(bytes);
+  if (!doc) {
+    throw new Error('File is not a valid 3DM document');
+  }
+
+  try {
+    const info = extractDocumentInfo(rhino, doc);
+    return { ...info, ...extractDocumentObjects(rhino, doc, onProgress, meshing) };
+  } finally {
+    doc.delete();
+  }
+}
+
+export function extractDocumentInfo(rhino: RhinoModule, doc: File3dm): RhinoDocumentInfo {
+  return {
+    layers: extractLayers(doc),
+    materials: extractMaterials(rhino, doc),
+    unitSystem: enumName(rhino.UnitSystem, doc.settings().modelUnitSystem),
+    tolerance: doc.settings().modelAbsoluteTolerance > 0 ? doc.settings().modelAbsoluteTolerance : null,
+    views: [...extractViews(doc.namedViews(), 'named'), ...extractViews(doc.views(), 'viewport')]
+  };
+}
+
+export function extractLayers(doc: File3dm): RhinoLayer[] {
+  const layerTable = doc.layers();
+  const layers: Array<RhinoLayer & { parentId: string }> = [];
+
+  for (let i = 0; i < layerTable.count; i++) {
+    const layer = layerTable.get(i);
+    layers.push({
+      index: layer.index ?? i,
+      id: layer.id,
+      name: layer.name,
+      fullPath: layer.fullPath || layer.name,
+      color: colorToHex(readColor(layer.color)),
+      parentId: layer.parentLayerId,
+      parentIndex: null,
+      visible: layer.visible,
+      locked: layer.locked,
+      material: layer.renderMaterialIndex ?? -1
+    });
+    layer.delete();
+  }
+
+  // Rhino links children to parents by id; resolve that to table indices
+  const indexById = new Map(layers.map((layer) => [layer.id, layer.index]));
+  return layers.map(({ parentId, ...layer }) => ({
+    ...layer,
+    parentIndex: parentId && parentId !== EMPTY_GUID ? indexById.get(parentId) ?? null : null
+  }));
+}
+
+// Rhino marks missing points with RhinoMath.UnsetValue (-1.23432101234321e+308)
+const isSetPoint = (point: number[] | undefined): point is [number, number, number] =>
+  !!point && point.length === 3 && point.every((value) => Number.isFinite(value) && Math.abs(value) < 1e300);
+
+export function extractViews(viewTable: File3dmViewTable, source: RhinoView['source']): RhinoView[] {
+  const views: RhinoView[] = [];
+
+  for (let i = 0; i < viewTable.count; i++) {
+    const view = viewTable.get(i);
+    const viewport = view.getViewport();
+    const location: number[] = viewport.cameraLocation;
+    const direction: number[] = viewport.cameraDirection;
+    const up: number[] = viewport.cameraUp;
+
+    if (isSetPoint(location) && isSetPoint(direction) && isSetPoint(up)) {
+      const target: number[] = viewport.targetPoint;
+      views.push({
+        name: view.name || `View ${i + 1}`,
+        source,
+        location,
+        direction,
+        up,
+        target: isSetPoint(target) ? target : null,
+        parallel: viewport.isParallelProjection,
+        cameraAngle: viewport.cameraAngle
+      });
+    }
+    // The viewport belongs to the view and is freed with it
+    view.delete();
+  }
+
+  return views;
+}
+
+export function extractMaterials(rhino: RhinoModule, doc: File3dm): RhinoMaterial[] {
+  const materialTable = doc.materials();
+  const materials: RhinoMaterial[] = [];
+
+  for (let i = 0; i < materialTable.count; i++) {
+    const material = materialTable.get(i);
+    const pbr = material.physicallyBased();
+    materials.push({
+      index: i,
+      id: material.id,
+      name: material.name || `Material ${i + 1}`,
+      diffuseColor: colorToHex(readColor(material.diffuseColor)),
+      specularColor: colorToHex(readColor(material.specularColor)),
+      emissionColor: colorToHex(readColor(material.emissionColor)),
+      shine: (material.shine ?? 0) / MAX_SHINE,
+      transparency: material.transparency ?? 0,
+      pbr: pbr?.supported
+        ? {
+            baseColor: colorToHex(unitColorToBytes(readColor(pbr.baseColor))),
+            metallic: pbr.metallic,
+            roughness: pbr.roughness,
+            opacity: pbr.opacity
+          }
+        : undefined,
+      textures: {
+        diffuse: extractTexture(doc, material.getBitmapTexture()),
+        bump: extractTexture(doc, material.getBumpTexture()),
+        transparency: extractTexture(doc, material.getTransparencyTexture())
+      }
+    });
+    pbr?.delete();
+    material.delete();
+  }
+
+  return materials;
+}
+
+// Texture images are only available when they were embedded in the file;
+// otherwise just the original path is kept for display
+function extractTexture(doc: File3dm, texture: Texture | null): RhinoTexture | undefined {
+  if (!texture) return undefined;
+
+  try {
+    const fileName: string = texture.fileName;
+    if (!texture.enabled || !fileName) return undefined;
+
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    // Declared as void, but returns an empty string for files that were not embedded
+    const base64 = doc.getEmbeddedFileAsBase64(fileName) as unknown as string;
+    const [repeatU, repeatV] = texture.repeat ?? [1, 1];
+    const [offsetU, offsetV] = texture.offset ?? [0, 0];
+
+    return {
+      fileName,
+      url: base64 ? `data:${IMAGE_TYPES[extension] ?? 'application/octet-stream'};base64,${base64}` : undefined,
+      repeat: [repeatU, repeatV],
+      offset: [offsetU, offsetV],
+      rotation: texture.rotation ?? 0
+    };
+  } finally {
+    texture.delete();
+  }
+}
+
+// Resolves every instance definition to its leaf geometry. Nested block instances are
+// flattened with their transforms, so each part's geometry is extracted only once.
+export function extractBlocks(
+  rhino: RhinoModule,
+  doc: File3dm,
+  meshing: MeshingOptions = DEFAULT_MESHING_OPTIONS
+): RhinoBlock[] {
+  const definitionTable = doc.instanceDefinitions();
+  const objectTable = doc.objects();
+  const resolved = new Map<string, RhinoBlockPart[]>();
+
+  const resolve = (definitionId: string, path: string[]): RhinoBlockPart[] => {
+    const known = resolved.get(definitionId);
+    if (known) return known;
+    if (path.includes(definitionId)) {
+      console.warn(`Block ${definitionId} contains an instance of itself; the nested instance was ignored`);
+      return [];
+    }
+
+    const definition = definitionTable.findId(definitionId);
+    if (!definition) return [];
+
+    const parts: RhinoBlockPart[] = [];
+    for (const memberId of definition.getObjectIds() as string[]) {
+      const member = objectTable.findId(memberId);
+      const geometry = member?.geometry();
+      if (!geometry) continue;
+
+      if (isInstanceReference(rhino, geometry)) {
+        const placement = new Matrix4().fromArray(geometry.xform.toFloatArray(false));
+        for (const part of resolve(geometry.parentIdefId, [...path, definitionId])) {
+          parts.push({
+            ...part,
+            transform: placement.clone().multiply(new Matrix4().fromArray(part.transform)).toArray()
+          });
+        }
+        continue;
+      }
+
+      const extracted = extractGeometry(rhino, geometry, meshing);
+      if (extracted) {
+        parts.push({
+          geometry: extracted,
+          attributes: extractAttributes(rhino, member),
+          objectType: objectTypeName(rhino, geometry.objectType),
+          transform: IDENTITY_TRANSFORM
+        });
+      }
+    }
+    definition.delete();
+
+    resolved.set(definitionId, parts);
+    return parts;
+  };
+
+  const blocks: RhinoBlock[] = [];
+  for (let i = 0; i < definitionTable.count; i++) {
+    const definition = definitionTable.get(i);
+    const parts = resolve(definition.id, []);
+    const bounds = computePartBounds(parts);
+    blocks.push({
+      id: definition.id,
+      name: definition.name,
+      parts,
+      bounds: bounds.isEmpty() ? null : { min: bounds.min.toArray(), max: bounds.max.toArray() }
+    });
+    definition.delete();
+  }
+  return blocks;
+}
+
+function computePartBounds(parts: RhinoBlockPart[]): Box3 {
+  const bounds = new Box3();
+  const point = new Vector3();
+
+  for (const part of parts) {
+    const transform = new Matrix4().fromArray(part.transform);
+    const positions = part.geometry.positions;
+    for (let i = 0; i < positions.length; i += 3) {
+      bounds.expandByPoint(point.set(positions[i], positions[i + 1], positions[i + 2]).applyMatrix4(transform));
+    }
+  }
+
+  return bounds;
+}
+
+// Walks the document object table, calling `onProgress` after every object.
+// Objects that only exist as part of a block definition are not listed on their own.
+export function extractDocumentObjects(
+  rhino: RhinoModule,
+  doc: File3dm,
+  onProgress?: (object: RhinoObject | null, processed: number, total: number) => void,
+  meshing: MeshingOptions = DEFAULT_MESHING_OPTIONS,
+  blocks: RhinoBlock[] = extractBlocks(rhino, doc, meshing)
+): Pick<RhinoScene, 'objects' | 'blocks' | 'skipped'> {
+  const objects: RhinoObject[] = [];
+  const skipped: SkippedObjects = {};
+  const blocksById = new Map(blocks.map((block) => [block.id, block]));
+
+  const objectTable = doc.objects();
+  const count = objectTable.count;
+
+  for (let i = 0; i < count; i++) {
+    const rhinoObject = objectTable.get(i);
+    const geometry = rhinoObject.geometry();
+    let extracted: RhinoObject | null = null;
+
+    if (geometry && !rhinoObject.attributes().isInstanceDefinitionObject) {
+      const objectType = objectTypeName(rhino, geometry.objectType);
+      const extractedParts = isInstanceReference(rhino, geometry)
+        ? extractInstance(geometry, blocksById)
+        : { geometry: extractGeometry(rhino, geometry, meshing) };
+      if (extractedParts?.geometry) {
+        extracted = {
+          id: rhinoObject.attributes().id,
+          ...extractedParts,
+          attributes: extractAttributes(rhino, rhinoObject),
+          objectType
+        };
+        objects.push(extracted);
+      } else {
+        skipped[objectType] = (skipped[objectType] ?? 0) + 1;
+      }
+    }
+
+    onProgress?.(extracted, i + 1, count);
+  }
+
+  return { objects, blocks, skipped };
+}
+
+// Instances of empty or unknown blocks have nothing to draw and yield null
+function extractInstance(
+  reference: InstanceReference,
+  blocksById: Map<string, RhinoBlock>
+): Pick<RhinoObject, 'geometry' | 'instance'> | null {
+  const block = blocksById.get(reference.parentIdefId);
+  if (!block?.bounds) return null;
+
+  const transform = new Matrix4().fromArray(reference.xform.toFloatArray(false));
+  const { min, max } = block.bounds;
+  const corners = new Float32Array(24);
+  for (let corner = 0; corner < 8; corner++) {
+    new Vector3(
+      corner & 1 ? max[0] : min[0],
+      corner & 2 ? max[1] : min[1],
+      corner & 4 ? max[2] : min[2]
+    ).applyMatrix4(transform).toArray(corners, corner * 3);
+  }
+
+  return {
+    geometry: { kind: 'instance', positions: corners, indices: new Uint16Array(0) },
+    instance: { blockId: block.id, blockName: block.name, transform: transform.toArray() }
+  };
+}
+
+// Converts any displayable geometry; returns null for types the viewer cannot draw
+export function extractGeometry(
+  rhino: RhinoModule,
+  geometry: GeometryBase,
+  meshing: MeshingOptions = DEFAULT_MESHING_OPTIONS
+): RhinoGeometry | null {
+  switch (geometry.objectType) {
+    case rhino.ObjectType.Mesh:
+    case rhino.ObjectType.Brep:
+    case rhino.ObjectType.Surface:
+    case rhino.ObjectType.Extrusion:
+    case rhino.ObjectType.SubD:
+      return extractMeshGeometry(rhino, geometry, meshing);
+    case rhino.ObjectType.Curve:
+      return extractCurveGeometry(geometry as Curve, meshing);
+    case rhino.ObjectType.Point:
+    case rhino.ObjectType.PointSet:
+      return extractPointGeometry(rhino, geometry);
+    case rhino.ObjectType.TextDot:
+    case rhino.ObjectType.Annotation:
+      return extractAnnotationGeometry(rhino, geometry);
+    default:
+      return null;
+  }
+}
+
+// rhino3dm cannot mesh NURBS itself, so Breps and extrusions prefer the render (or analysis)
+// meshes Rhino saved in the file and otherwise fall back to our own tessellation
+export function extractMeshGeometry(
+  rhino: RhinoModule,
+  geometry: GeometryBase,
+  meshing: MeshingOptions = DEFAULT_MESHING_OPTIONS
+): RhinoGeometry | null {
+  try {
+    switch (geometry.objectType) {
+      case rhino.ObjectType.Mesh:
+        return meshToGeometry(geometry as Mesh);
+
+      case rhino.ObjectType.Brep:
+        return extractBrepGeometry(rhino, geometry as Brep, meshing);
+
+      case rhino.ObjectType.Surface:
+        return tessellateSurface(geometry as Surface, meshing);
+
+      case rhino.ObjectType.Extrusion: {
+        const extrusion = geometry as Extrusion;
+        // The mesh cache belongs to the extrusion, so only our own copies are deleted
+        const cached = meshing.useCachedMeshes ? cachedMesh(rhino, extrusion) : null;
+        return cached ? meshToGeometry(cached) : tessellateExtrusion(extrusion, meshing);
+      }
+
+      case rhino.ObjectType.SubD: {
+        const subd = geometry.duplicate() as SubD;
+        subd.subdivide(subdivisionLevels(meshing));
+        const mesh = (rhino.Mesh as unknown as SubDMeshFactory).createFromSubDControlNet(subd, false);
+        subd.delete();
+        if (!mesh) return null;
+        try {
+          return meshToGeometry(mesh);
+        } finally {
+          mesh.delete();
+        }
+      }
+
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.error('Error extracting mesh geometry:', error);
+    return null;
+  }
+}
+
+function cachedMesh(rhino: RhinoModule, meshOwner: Extrusion | BrepFace): Mesh | null {
+  return meshOwner.getMesh(rhino.MeshType.Render) ?? meshOwner.getMesh(rhino.MeshType.Any) ?? null;
+}
+
+// Faces are meshed one by one: cached meshes first, then untrimmed faces are tessellated.
+// Trimmed faces without a cached mesh cannot be meshed by rhino3dm and are left out.
+function extractBrepGeometry(rhino: RhinoModule, brep: Brep, meshing: MeshingOptions): RhinoGeometry | null {
+  const faceList = brep.faces();
+  const parts: RhinoGeometry[] = [];
+  let missingFaces = 0;
+
+  for (let i = 0; i < faceList.count; i++) {
+    const face = faceList.get(i);
+    const cached = meshing.useCachedMeshes ? cachedMesh(rhino, face) : null;
+
+    if (cached) {
+      parts.push(meshToGeometry(cached));
+    } else {
+      const faceBrep = face.duplicateFace(false);
+      if (faceBrep.isSurface) {
+        parts.push(tessellateSurface(face, meshing, face.orientationIsReversed));
+      } else {
+        missingFaces++;
+      }
+      faceBrep.delete();
+    }
+    face.delete();
+  }
+
+  if (missingFaces > 0) {
+    console.warn(`${missingFaces} trimmed Brep face(s) have no render mesh and were not displayed`);
+  }
+
+  return parts.length > 0 ? mergeGeometries(parts) : null;
+}
+
+// Flat arrays from a rhino3dm Mesh; the caller keeps ownership of the mesh
+export function meshToGeometry(mesh: Mesh): RhinoGeometry {
+  const vertexList = mesh.vertices();
+  const vertexCount = vertexList.count;
+  const positions = new Float32Array(vertexCount * 3);
+  for (let i = 0; i < vertexCount; i++) {
+    const vertex = vertexList.get(i);
+    positions[i * 3] = vertex[0];
+    positions[i * 3 + 1] = vertex[1];
+    positions[i * 3 + 2] = vertex[2];
+  }
+
+  // Quads ([a, b, c, d] with c !== d) are split into two triangles
+  const faceList = mesh.faces();
+  const faceCount = faceList.count;
+  const triangles: number[] = [];
+  for (let i = 0; i < faceCount; i++) {
+    const [a, b, c, d] = faceList.get(i);
+    triangles.push(a, b, c);
+    if (d !== undefined && d !== c) {
+      triangles.push(a, c, d);
+    }
+  }
+
+  let normals: Float32Array | undefined;
+  const normalList = mesh.normals();
+  if (normalList.count === vertexCount && vertexCount > 0) {
+    normals = new Float32Array(vertexCount * 3);
+    for (let i = 0; i < vertexCount; i++) {
+      const normal = normalList.get(i);
+      normals[i * 3] = normal[0];
+      normals[i * 3 + 1] = normal[1];
+      normals[i * 3 + 2] = normal[2];
+    }
+  }
+
+  let colors: Float32Array | undefined;
+  const colorList = mesh.vertexColors();
+  if (colorList.count === vertexCount && vertexCount > 0) {
+    colors = new Float32Array(vertexCount * 4);
+    for (let i = 0; i < vertexCount; i++) {
+      const color = readColor(colorList.get(i)) ?? OPAQUE_BLACK;
+      colors[i * 4] = color.r / 255;
+      colors[i * 4 + 1] = color.g / 255;
+      colors[i * 4 + 2] = color.b / 255;
+      colors[i * 4 + 3] = color.a / 255;
+    }
+  }
+
+  let uvs: Float32Array | undefined;
+  const uvList = mesh.textureCoordinates();
+  if (uvList.count === vertexCount && vertexCount > 0) {
+    uvs = new Float32Array(vertexCount * 2);
+    for (let i = 0; i < vertexCount; i++) {
+      const uv = uvList.get(i);
+      uvs[i * 2] = uv[0];
+      uvs[i * 2 + 1] = uv[1];
+    }
+  }
+
+  return {
+    kind: 'mesh',
+    positions,
+    indices: createIndexArray(triangles, vertexCount),
+    normals,
+    colors,
+    uvs
+  };
+}
+
+export function extractCurveGeometry(
+  curve: Curve,
+  meshing: MeshingOptions = DEFAULT_MESHING_OPTIONS
+): RhinoGeometry | null {
+  try {
+    const points = sampleCurve(curve, meshing);
+    if (points.length < 2) return null;
+
+    const segments: number[] = [];
+    for (let i = 1; i < points.length; i++) {
+      segments.push(i - 1, i);
+    }
+
+    return {
+      kind: 'curve',
+      positions: Float32Array.from(points.flat()),
+      indices: createIndexArray(segments, points.length)
+    };
+  } catch (error) {
+    console.error('Error extracting curve geometry:', error);
+    return null;
+  }
+}
+
+export function extractPointGeometry(rhino: RhinoModule, geometry: GeometryBase): RhinoGeometry | null {
+  try {
+    if (geometry.objectType === rhino.ObjectType.Point) {
+      return {
+        kind: 'points',
+        positions: Float32Array.from((geometry as Point).location),
+        indices: new Uint16Array(0)
+      };
+    }
+
+    const pointCloud = geometry as PointCloud;
+    const points = pointCloud.getPoints() as number[][];
+    if (points.length === 0) return null;
+
+    let colors: Float32Array | undefined;
+    if (pointCloud.containsColors) {
+      colors = Float32Array.from(
+        pointCloud.getColors().flatMap((value) => {
+          const color = readColor(value) ?? OPAQUE_BLACK;
+          return [color.r / 255, color.g / 255, color.b / 255, color.a / 255];
+        })
+      );
+    }
+
+    return {
+      kind: 'points',
+      positions: Float32Array.from(points.flat()),
+      indices: new Uint16Array(0),
+      colors
+    };
+  } catch (error) {
+    console.error('Error extracting point geometry:', error);
+    return null;
+  }
+}
+
+// Text dots, text and dimensions become a single labelled anchor point
+export function extractAnnotationGeometry(rhino: RhinoModule, geometry: GeometryBase): RhinoGeometry | null {
+  try {
+    const dot = geometry.objectType === rhino.ObjectType.TextDot ? geometry as TextDot : null;
+    const text = dot ? dot.text : (geometry as AnnotationBase).plainText;
+    const anchor = dot ? dot.point : geometry.getBoundingBox().center;
+
+    return {
+      kind: 'annotation',
+      positions: Float32Array.from(anchor),
+      indices: new Uint16Array(0),
+      text: text || objectTypeName(rhino, geometry.objectType)
+    };
+  } catch (error) {
+    console.error('Error extracting annotation:', error);
+    return null;
+  }
+}
+
+// Plain-data copy of the object attributes, safe to post between threads
+export function extractAttributes(rhino: RhinoModule, rhinoObject: File3dmObject): RhinoObjectAttributes {
+  try {
+    const attributes = rhinoObject.attributes();
+    const geometry = rhinoObject.geometry();
+    const color = readColor(attributes.objectColor);
+    return {
+      layer: attributes.layerIndex,
+      material: attributes.materialIndex,
+      materialSource: MATERIAL_SOURCES[enumName(rhino.ObjectMaterialSource, attributes.materialSource)],
+      color: color ? { r: color.r, g: color.g, b: color.b, a: color.a } : undefined,
+      colorSource: COLOR_SOURCES[enumName(rhino.ObjectColorSource, attributes.colorSource)],
+      visible: attributes.visible,
+      name: attributes.name || '',
+      userStrings: Object.fromEntries([
+        ...readUserStrings(geometry),
+        ...readUserStrings(attributes)
+      ])
+    };
+  } catch (error) {
+    return {};
+  }
+}
+
+const COLOR_SOURCES: Record<string, ColorSource> = {
+  ColorFromLayer: 'layer',
+  ColorFromObject: 'object',
+  ColorFromMaterial: 'material',
+  ColorFromParent: 'parent'
+};
+
+const MATERIAL_SOURCES: Record<string, MaterialSource> = {
+  MaterialFromLayer: 'layer',
+  MaterialFromObject: 'object',
+  MaterialFromParent: 'parent'
+};
+
+// The typings declare the static without its arguments, which cannot be merged away
+interface SubDMeshFactory {
+  createFromSubDControlNet(subd: SubD, includeCreases: boolean): Mesh | null;
+}
+
+// Instance references are the only geometry placed by a transform
+function isInstanceReference(rhino: RhinoModule, geometry: GeometryBase): geometry is InstanceReference {
+  return geometry.objectType === rhino.ObjectType.InstanceReference;
+}
+
+// Declared as a flat string list, but every entry is a [key, value] pair
+function readUserStrings(owner: CommonObject | null | undefined): Array<[string, string]> {
+  return (owner?.getUserStrings() ?? []) as unknown as Array<[string, string]>;
+}
+
+// Colours are { r, g, b, a } objects at runtime, whatever the typings declare
+interface RhinoColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const OPAQUE_BLACK: RhinoColor = { r: 0, g: 0, b: 0, a: 255 };
+
+function readColor(value: unknown): RhinoColor | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { r, g, b, a } = value as Partial<RhinoColor>;
+  return typeof r === 'number' && typeof g === 'number' && typeof b === 'number'
+    ? { r, g, b, a: typeof a === 'number' ? a : 255 }
+    : undefined;
+}
+
+// Physically based colours are stored as 0-1 floats
+function unitColorToBytes(color: { r: number; g: number; b: number } | undefined) {
+  if (!color) return undefined;
+  const toByte = (channel: number) => Math.round(Math.min(Math.max(channel, 0), 1) * 255);
+  return { r: toByte(color.r), g: toByte(color.g), b: toByte(color.b) };
+}
+
+export function colorToHex(color: { r: number; g: number; b: number } | undefined): string {
+  if (!color) return '#000000';
+  return '#' + [color.r, color.g, color.b].map((c) => c.toString(16).padStart(2, '0')).join('');
+}
+
+// rhino3dm enums are embind objects; map them back to their names
+export function enumName(enumeration: Record<string, unknown>, value: unknown): string {
+  const entry = Object.entries(enumeration).find(([, member]) => member === value);
+  return entry ? entry[0] : String(value);
+}
+
+export function objectTypeName(rhino: RhinoModule, objectType: unknown): string {
+  return enumName(rhino.ObjectType, objectType);
+}
+
+// Parts of nested blocks share their geometry, so each buffer is listed once
+export function blockTransferables(blocks: RhinoBlock[]): ArrayBuffer[] {
+  return [...new Set(blocks.flatMap((block) => block.parts.flatMap((part) => transferablesOf(part.geometry))))];
+}
+
+export function transferablesOf(geometry: RhinoGeometry): ArrayBuffer[] {
+  return [geometry.positions, geometry.indices, geometry.normals, geometry.colors, geometry.uvs]
+    .filter((array): array is Float32Array | Uint16Array | Uint32Array => array !== undefined)
+    .map((array) => array.buffer as ArrayBuffer);
+}
@@ -0,0 +1,254 @@
+// Our own tessellation for NURBS geometry. rhino3dm can read the render meshes Rhino
+// stored in a file but cannot create new ones, so anything without a cached mesh is
+// sampled here: curves by parameter, untrimmed surfaces on a UV grid, extrusions from
+// their profiles. Like rhinoDocument, nothing in here touches the DOM.
+import { ShapeUtils, Vector2, Vector3 } from "three";
+import type { Curve, Extrusion, Polyline, Surface } from "rhino3dm";
+import type { RhinoGeometry } from "./rhinoDocument";
+
+export interface MeshingOptions {
+  // Use the render/analysis meshes saved in the file when there are any
+  useCachedMeshes: boolean;
+  // Largest angle, in degrees, a curved span may turn between two facets
+  angleTolerance: number;
+  // Longest facet edge in model units; 0 means no limit
+  maxEdgeLength: number;
+}
+
+export const DEFAULT_MESHING_OPTIONS: MeshingOptions = {
+  useCachedMeshes: true,
+  angleTolerance: 10,
+  maxEdgeLength: 0
+};
+
+const MAX_CURVE_SEGMENTS = 1024;
+const MAX_SURFACE_SEGMENTS = 256;
+
+// A NURBS span turns by at most a quarter circle in practice, so split it into enough
+// pieces to keep each one within the angle tolerance. Straight (degree 1) spans need none.
+function segmentsPerSpan(degree: number, meshing: MeshingOptions): number {
+  return degree <= 1 ? 1 : Math.ceil(90 / Math.max(meshing.angleTolerance, 0.5));
+}
+
+// Extra segments so no edge is longer than the limit, given the length of a first sampling
+function segmentsForEdgeLength(points: number[][], segments: number, meshing: MeshingOptions): number {
+  if (meshing.maxEdgeLength <= 0) return segments;
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(
+      points[i][0] - points[i - 1][0],
+      points[i][1] - points[i - 1][1],
+      points[i][2] - points[i - 1][2]
+    );
+  }
+  return Math.max(segments, Math.ceil(length / meshing.maxEdgeLength));
+}
+
+export function subdivisionLevels(meshing: MeshingOptions): number {
+  if (meshing.angleTolerance >= 15) return 1;
+  if (meshing.angleTolerance >= 5) return 2;
+  return 3;
+}
+
+// Polylines keep their exact vertices, other curves are sampled evenly per span
+export function sampleCurve(curve: Curve, meshing: MeshingOptions = DEFAULT_MESHING_OPTIONS): number[][] {
+  const polyline = curve.tryGetPolyline() as Polyline | null;
+  if (polyline) {
+    const points: number[][] = [];
+    for (let i = 0; i < polyline.count; i++) {
+      points.push(polyline.get(i));
+    }
+    polyline.delete();
+    return points;
+  }
+
+  const [t0, t1] = curve.domain;
+  const sample = (segments: number) => {
+    const points: number[][] = [];
+    for (let i = 0; i <= segments; i++) {
+      points.push(curve.pointAt(t0 + ((t1 - t0) * i) / segments));
+    }
+    return points;
+  };
+
+  const segments = curve.isLinear(1e-9)
+    ? 1
+    : Math.min(curve.spanCount * segmentsPerSpan(curve.degree, meshing), MAX_CURVE_SEGMENTS);
+  const points = sample(segments);
+
+  const refined = Math.min(segmentsForEdgeLength(points, segments, meshing), MAX_CURVE_SEGMENTS);
+  return refined > segments ? sample(refined) : points;
+}
+
+// Samples an untrimmed surface (or Brep face) on a regular UV grid.
+// Brep faces report normals of the underlying surface, so reversed faces are flipped here.
+export function tessellateSurface(
+  surface: Surface,
+  meshing: MeshingOptions = DEFAULT_MESHING_OPTIONS,
+  reversed = false
+): RhinoGeometry {
+  const [u0, u1] = surface.domain(0);
+  const [v0, v1] = surface.domain(1);
+
+  const countFor = (direction: 0 | 1) => {
+    const [t0, t1] = direction === 0 ? [u0, u1] : [v0, v1];
+    const segments = Math.min(
+      surface.spanCount(direction) * segmentsPerSpan(surface.degree(direction), meshing),
+      MAX_SURFACE_SEGMENTS
+    );
+    // Measure along the middle isocurve of the other direction
+    const middle = direction === 0 ? (v0 + v1) / 2 : (u0 + u1) / 2;
+    const points: number[][] = [];
+    for (let i = 0; i <= segments; i++) {
+      const t = t0 + ((t1 - t0) * i) / segments;
+      points.push(direction === 0 ? surface.pointAt(t, middle) : surface.pointAt(middle, t));
+    }
+    return Math.min(segmentsForEdgeLength(points, segments, meshing), MAX_SURFACE_SEGMENTS);
+  };
+
+  const nu = countFor(0);
+  const nv = countFor(1);
+  const sign = reversed ? -1 : 1;
+
+  // Texture coordinates follow Rhino's surface mapping: the domain normalized to 0-1
+  const positions = new Float32Array((nu + 1) * (nv + 1) * 3);
+  const normals = new Float32Array((nu + 1) * (nv + 1) * 3);
+  const uvs = new Float32Array((nu + 1) * (nv + 1) * 2);
+  for (let i = 0; i <= nu; i++) {
+    const u = u0 + ((u1 - u0) * i) / nu;
+    for (let j = 0; j <= nv; j++) {
+      const v = v0 + ((v1 - v0) * j) / nv;
+      const vertex = i * (nv + 1) + j;
+      const point = surface.pointAt(u, v);
+      const normal = surface.normalAt(u, v);
+      positions.set(point, vertex * 3);
+      normals.set([normal[0] * sign, normal[1] * sign, normal[2] * sign], vertex * 3);
+      uvs.set([i / nu, j / nv], vertex * 2);
+    }
+  }
+
+  // Counter-clockwise in UV faces along the surface normal
+  const triangles: number[] = [];
+  for (let i = 0; i < nu; i++) {
+    for (let j = 0; j < nv; j++) {
+      const a = i * (nv + 1) + j;
+      const b = a + nv + 1;
+      if (reversed) {
+        triangles.push(a, b + 1, b, a, a + 1, b + 1);
+      } else {
+        triangles.push(a, b, b + 1, a, b + 1, a + 1);
+      }
+    }
+  }
+
+  return {
+    kind: 'mesh',
+    positions,
+    indices: createIndexArray(triangles, positions.length / 3),
+    normals,
+    uvs
+  };
+}
+
+// Fallback for extrusions saved without a render mesh: walls are quad strips between
+// the profiles at both ends of the path, caps are triangulated with the inner profiles as holes
+export function tessellateExtrusion(
+  extrusion: Extrusion,
+  meshing: MeshingOptions = DEFAULT_MESHING_OPTIONS
+): RhinoGeometry | null {
+  const profiles: Array<[number[][], number[][]]> = [];
+  for (let i = 0; i < extrusion.profileCount; i++) {
+    const bottom = extrusion.profile3d(i, 0);
+    const top = extrusion.profile3d(i, 1);
+    profiles.push([sampleCurve(bottom, meshing), sampleCurve(top, meshing)]);
+    bottom.delete();
+    top.delete();
+  }
+  if (profiles.length === 0) return null;
+
+  const positions: number[] = [];
+  const triangles: number[] = [];
+
+  // Every wall quad gets its own vertices so creases between segments stay sharp
+  for (const [bottom, top] of profiles) {
+    for (let i = 1; i < bottom.length; i++) {
+      const base = positions.length / 3;
+      positions.push(...bottom[i - 1], ...bottom[i], ...top[i], ...top[i - 1]);
+      triangles.push(base, base + 1, base + 2, base, base + 2, base + 3);
+    }
+  }
+
+  // Caps are planar, so triangulate in a 2D frame perpendicular to the path
+  const direction = new Vector3(...extrusion.pathTangent).normalize();
+  const u = new Vector3(1, 0, 0).cross(direction);
+  if (u.lengthSq() < 1e-12) u.set(0, 1, 0).cross(direction);
+  u.normalize();
+  const v = new Vector3().crossVectors(direction, u);
+
+  const addCap = (end: 0 | 1, enabled: boolean) => {
+    if (!enabled) return;
+    // Closed profiles repeat their first point at the end
+    const loops = profiles.map((pair) => pair[end].slice(0, -1));
+    const flat = loops.map((loop) => loop.map(([x, y, z]) => {
+      const point = new Vector3(x, y, z);
+      return new Vector2(point.dot(u), point.dot(v));
+    }));
+
+    const base = positions.length / 3;
+    const points2d = flat.flat();
+    loops.forEach((loop) => loop.forEach((point) => positions.push(...point)));
+    for (const [a, b, c] of ShapeUtils.triangulateShape(flat[0], flat.slice(1))) {
+      // Wind every triangle along the path direction, then flip the bottom cap to face outwards
+      const counterClockwise = ShapeUtils.area([points2d[a], points2d[b], points2d[c]]) > 0;
+      if (counterClockwise === (end === 1)) triangles.push(base + a, base + b, base + c);
+      else triangles.push(base + a, base + c, base + b);
+    }
+  };
+
+  addCap(0, extrusion.isCappedAtBottom);
+  addCap(1, extrusion.isCappedAtTop);
+
+  const vertexCount = positions.length / 3;
+  return {
+    kind: 'mesh',
+    positions: Float32Array.from(positions),
+    indices: createIndexArray(triangles, vertexCount)
+  };
+}
+
+// Concatenates mesh parts (e.g. Brep faces); normals and colours survive only if every part has them
+export function mergeGeometries(parts: RhinoGeometry[]): RhinoGeometry {
+  if (parts.length === 1) return parts[0];
+
+  const vertexCount = parts.reduce((sum, part) => sum + part.positions.length / 3, 0);
+  const positions = new Float32Array(vertexCount * 3);
+  const normals = parts.every((part) => part.normals) ? new Float32Array(vertexCount * 3) : undefined;
+  const colors = parts.every((part) => part.colors) ? new Float32Array(vertexCount * 4) : undefined;
+  const uvs = parts.every((part) => part.uvs) ? new Float32Array(vertexCount * 2) : undefined;
+  const triangles: number[] = [];
+
+  let vertexOffset = 0;
+  for (const part of parts) {
+    positions.set(part.positions, vertexOffset * 3);
+    normals?.set(part.normals!, vertexOffset * 3);
+    colors?.set(part.colors!, vertexOffset * 4);
+    uvs?.set(part.uvs!, vertexOffset * 2);
+    for (const index of part.indices) {
+      triangles.push(index + vertexOffset);
+    }
+    vertexOffset += part.positions.length / 3;
+  }
+
+  return {
+    kind: 'mesh',
+    positions,
+    indices: createIndexArray(triangles, vertexCount),
+    normals,
+    colors,
+    uvs
+  };
+}
+
+export function createIndexArray(indices: ArrayLike<number>, vertexCount: number): Uint16Array | Uint32Array {
+  return vertexCount > 65535 ? Uint32Array.from(indices) : Uint16Array.from(indices);
+}
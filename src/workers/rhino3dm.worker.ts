@@ -0,0 +1,102 @@
+// Parses 3DM files off the main thread and streams objects back in batches.
+// The last parsed document stays loaded so it can be re-meshed without re-reading the file.
+import type { File3dm, RhinoModule } from "rhino3dm";
+import {
+  blockTransferables,
+  extractBlocks,
+  extractDocumentInfo,
+  extractDocumentObjects,
+  loadRhino3dm,
+  transferablesOf,
+  type MeshingOptions,
+  type RhinoBlock,
+  type RhinoDocumentInfo,
+  type RhinoObject,
+  type SkippedObjects
+} from "@/services/rhinoDocument";
+
+export type ParserRequest =
+  | { type: 'parse'; jobId: number; buffer: ArrayBuffer; meshing: MeshingOptions }
+  | { type: 'remesh'; jobId: number; meshing: MeshingOptions };
+
+export type ParserResponse =
+  | { type: 'document'; jobId: number; info: RhinoDocumentInfo }
+  | { type: 'blocks'; jobId: number; blocks: RhinoBlock[] }
+  | { type: 'progress'; jobId: number; objects: RhinoObject[]; processed: number; total: number }
+  | { type: 'done'; jobId: number; skipped: SkippedObjects }
+  | { type: 'error'; jobId: number; message: string };
+
+const BATCH_SIZE = 32;
+
+let rhinoPromise: Promise<RhinoModule> | null = null;
+let loadedDoc: File3dm | null = null;
+
+const post = (message: ParserResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const streamObjects = (rhino: RhinoModule, doc: File3dm, jobId: number, meshing: MeshingOptions) => {
+  let batch: RhinoObject[] = [];
+  const flush = (processed: number, total: number) => {
+    post(
+      { type: 'progress', jobId, objects: batch, processed, total },
+      batch.flatMap((object) => transferablesOf(object.geometry))
+    );
+    batch = [];
+  };
+
+  post({ type: 'progress', jobId, objects: [], processed: 0, total: doc.objects().count });
+
+  // Blocks go first so instances can be drawn as soon as they arrive
+  const blocks = extractBlocks(rhino, doc, meshing);
+  post({ type: 'blocks', jobId, blocks }, blockTransferables(blocks));
+
+  const { skipped } = extractDocumentObjects(rhino, doc, (object, processed, total) => {
+    if (object) batch.push(object);
+    if (batch.length >= BATCH_SIZE || processed === total) {
+      flush(processed, total);
+    }
+  }, meshing, blocks);
+
+  post({ type: 'done', jobId, skipped });
+};
+
+const handleRequest = async (request: ParserRequest) => {
+  rhinoPromise ??= loadRhino3dm();
+  const rhino = await rhinoPromise;
+
+  if (request.type === 'remesh') {
+    if (!loadedDoc) {
+      throw new Error('No document is loaded to re-mesh');
+    }
+    streamObjects(rhino, loadedDoc, request.jobId, request.meshing);
+    return;
+  }
+
+  loadedDoc?.delete();
+  loadedDoc = null;
+
+  const doc = rhino.File3dm.fromByteArray(new Uint8Array(request.buffer));
+  if (!doc) {
+    throw new Error('File is not a valid 3DM document');
+  }
+
+  try {
+    post({ type: 'document', jobId: request.jobId, info: extractDocumentInfo(rhino, doc) });
+    streamObjects(rhino, doc, request.jobId, request.meshing);
+    loadedDoc = doc;
+  } catch (error) {
+    doc.delete();
+    throw error;
+  }
+};
+
+self.onmessage = (event: MessageEvent<ParserRequest>) => {
+  handleRequest(event.data).catch((error) => {
+    post({
+      type: 'error',
+      jobId: event.data.jobId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  });
+};
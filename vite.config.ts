@@ -21,6 +21,9 @@ export default defineConfig(({ mode }) => ({
   define: {
     global: 'globalThis',
   },
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     exclude: ['rhino3dm'],
   },